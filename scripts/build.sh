@@ -33,7 +33,16 @@ else
 fi
 echo ""
 
-echo "Step 3: Running TypeScript build..."
+echo "Step 3: Running unit tests..."
+if npm test 2>&1; then
+    echo -e "${GREEN}✓ Tests passed${NC}"
+else
+    echo -e "${RED}✗ Tests failed${NC}"
+    exit 1
+fi
+echo ""
+
+echo "Step 4: Running TypeScript build..."
 if npm run build 2>&1; then
     echo -e "${GREEN}✓ Build succeeded${NC}"
 else
@@ -42,7 +51,7 @@ else
 fi
 echo ""
 
-echo "Step 4: Verifying output files..."
+echo "Step 5: Verifying output files..."
 if [ -f "main.js" ] && [ -f "manifest.json" ]; then
     echo -e "${GREEN}✓ Output files exist (main.js, manifest.json)${NC}"
 else
@@ -0,0 +1,38 @@
+/**
+ * LiveRegion - Announces quiz feedback to screen readers
+ *
+ * A visually hidden status element. It has to be in the page before the
+ * message changes, so create it once and reuse it for every announcement.
+ */
+
+export class LiveRegion {
+  private el: HTMLElement;
+  private pending: number | null = null;
+
+  constructor(parentEl: HTMLElement) {
+    this.el = parentEl.createDiv({
+      cls: 'vr-sr-only',
+      attr: { role: 'status', 'aria-live': 'polite', 'aria-atomic': 'true' },
+    });
+  }
+
+  /**
+   * Reads a message out. The region is cleared first so the same message
+   * twice in a row (e.g. "Correct!") is still announced.
+   */
+  announce(message: string): void {
+    this.clear();
+    this.pending = window.setTimeout(() => {
+      this.pending = null;
+      this.el.textContent = message;
+    }, 50);
+  }
+
+  clear(): void {
+    if (this.pending !== null) {
+      window.clearTimeout(this.pending);
+      this.pending = null;
+    }
+    this.el.textContent = '';
+  }
+}
@@ -2,44 +2,146 @@
  * QuestionRenderer - Renders different question types in the quiz UI
  */
 
+import { App, Component, MarkdownRenderer } from 'obsidian';
 import type {
   Question,
   MultipleChoiceQuestion,
+  MultiSelectQuestion,
   FillBlankQuestion,
   TrueFalseQuestion,
+  OrderingQuestion,
+  MatchingQuestion,
+  ShortAnswerQuestion,
+  NumericQuestion,
+  FlashcardQuestion,
+  FlashcardGrade,
+  ImageOcclusionQuestion,
+  CodeOutputQuestion,
+  QuizResult,
 } from '../types';
-import { shuffledCopy } from '../utils/helpers';
+import { BLANK_PLACEHOLDER, FLASHCARD_GRADES } from '../constants';
+import { generateId, shuffledCopy } from '../utils/helpers';
+import { resolveAttachment } from '../utils/attachments';
 
 export type UserAnswer = string | string[] | boolean;
 
 interface RenderResult {
   container: HTMLElement;
   getAnswer: () => UserAnswer | null;
-  showFeedback: (correct: boolean, explanation: string) => void;
+  // Shows the result under the question; returns a summary of it to announce
+  showFeedback: (correct: boolean, explanation: string, result?: QuizResult) => string;
   disable: () => void;
+  // Answers with a shortcut key (number keys, T/F); returns whether the key was used
+  handleKey?: (key: string) => boolean;
+  // Resolves once answer boxes placed after rendering (fill-in-the-blank inputs) are in
+  ready?: Promise<void>;
 }
 
-export class QuestionRenderer {
+export interface QuestionRendererOptions {
+  // Show the shortcut key next to each option
+  showShortcutHints: boolean;
+}
+
+export class QuestionRenderer extends Component {
   private selectedOption: string | null = null;
   private selectedTrueFalse: boolean | null = null;
   private blankInputs: HTMLInputElement[] = [];
 
+  constructor(
+    private app: App,
+    private options: QuestionRendererOptions = { showShortcutHints: false }
+  ) {
+    super();
+  }
+
   /**
    * Renders a question and returns the container with answer retrieval methods.
    */
   render(question: Question): RenderResult {
+    const result = this.renderQuestion(question);
+
+    // Image occlusion draws its own image with masks over it
+    if (question.image && question.type !== 'image_occlusion') {
+      const image = this.createImage(question.image, question.sourceNote);
+      const questionText = result.container.querySelector('.vr-question-text');
+      if (questionText) {
+        questionText.after(image);
+      } else {
+        result.container.prepend(image);
+      }
+    }
+
+    // Focus lands on the question text, or on the answer box for typed answers,
+    // which then reads the question as its description
+    const questionText = result.container.querySelector<HTMLElement>('.vr-question-text');
+    if (questionText) {
+      questionText.setAttr('tabindex', '-1');
+      const questionId = this.getElementId(questionText);
+      result.container.querySelectorAll('input[type="text"], textarea').forEach((input) => {
+        if (!questionText.contains(input)) {
+          input.setAttr('aria-describedby', questionId);
+        }
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Moves keyboard and screen reader focus to a rendered question: the first
+   * answer box on typed questions, so typing can start straight away, and the
+   * question text otherwise. Answer boxes that are placed later take focus
+   * once they are in, unless focus has moved on by then.
+   */
+  focus(result: RenderResult): void {
+    const questionText = result.container.querySelector<HTMLElement>('.vr-question-text');
+    const focusTarget = () => {
+      const target =
+        result.container.querySelector<HTMLElement>('input[type="text"], textarea, select') ?? questionText;
+      target?.focus();
+    };
+
+    focusTarget();
+    void result.ready?.then(() => {
+      const active = document.activeElement;
+      if (result.container.isConnected && (active === questionText || active === document.body)) {
+        focusTarget();
+      }
+    });
+  }
+
+  /**
+   * Renders the type-specific parts of a question.
+   */
+  private renderQuestion(question: Question): RenderResult {
     switch (question.type) {
       case 'multiple_choice':
         return this.renderMultipleChoice(question);
+      case 'multi_select':
+        return this.renderMultiSelect(question);
       case 'fill_blank':
         return this.renderFillBlank(question);
       case 'true_false':
         return this.renderTrueFalse(question);
+      case 'ordering':
+        return this.renderOrdering(question);
+      case 'matching':
+        return this.renderMatching(question);
+      case 'short_answer':
+        return this.renderShortAnswer(question);
+      case 'numeric':
+        return this.renderNumeric(question);
+      case 'flashcard':
+        return this.renderFlashcard(question);
+      case 'image_occlusion':
+        return this.renderImageOcclusion(question);
+      case 'code_output':
+        return this.renderCodeOutput(question);
     }
   }
 
   /**
-   * Renders a multiple choice question with radio button options.
+   * Renders a multiple choice question as a radio group.
    */
   private renderMultipleChoice(question: MultipleChoiceQuestion): RenderResult {
     const container = document.createElement('div');
@@ -47,10 +149,7 @@ export class QuestionRenderer {
 
     // Question text
     const questionText = container.createDiv({ cls: 'vr-question-text' });
-    questionText.textContent = question.question;
-
-    // Options container
-    const optionsContainer = container.createDiv({ cls: 'vr-options' });
+    this.renderMarkdown(questionText, question.question, question.sourceNote);
 
     // Shuffle options
     const options = shuffledCopy([
@@ -59,34 +158,16 @@ export class QuestionRenderer {
     ]);
 
     let selectedOption: string | null = null;
-    const optionElements: HTMLElement[] = [];
-
-    for (const option of options) {
-      const optionEl = optionsContainer.createDiv({ cls: 'vr-option' });
-      optionElements.push(optionEl);
-
-      const radio = optionEl.createEl('input', {
-        type: 'radio',
-        attr: { name: 'vr-mc-option' },
-      });
-      radio.dataset.value = option;
-
-      const label = optionEl.createSpan({ cls: 'vr-option-label' });
-      label.textContent = option;
-
-      optionEl.addEventListener('click', () => {
-        // Deselect all
-        optionElements.forEach((el) => el.removeClass('vr-option-selected'));
-        optionsContainer
-          .querySelectorAll('input[type="radio"]')
-          .forEach((r: HTMLInputElement) => (r.checked = false));
-
-        // Select this one
-        radio.checked = true;
-        optionEl.addClass('vr-option-selected');
+    const optionElements = this.renderChoices(
+      container,
+      questionText,
+      options,
+      'radio',
+      (label, option) => this.renderMarkdown(label.createSpan({ cls: 'vr-option-label' }), option, question.sourceNote),
+      (option) => {
         selectedOption = option;
-      });
-    }
+      }
+    );
 
     // Feedback container (hidden initially)
     const feedbackContainer = container.createDiv({
@@ -96,36 +177,98 @@ export class QuestionRenderer {
     return {
       container,
       getAnswer: () => selectedOption,
+      handleKey: (key) => this.clickByNumber(key, optionElements),
       showFeedback: (correct: boolean, explanation: string) => {
         feedbackContainer.removeClass('vr-hidden');
         feedbackContainer.addClass(correct ? 'vr-correct' : 'vr-incorrect');
 
-        const resultText = feedbackContainer.createDiv({ cls: 'vr-result' });
-        resultText.textContent = correct ? 'Correct!' : 'Incorrect';
+        this.renderResultText(feedbackContainer, correct);
 
         // Highlight correct answer
-        optionElements.forEach((el) => {
-          const value = el.querySelector('input')?.dataset.value;
-          if (value === question.correctAnswer) {
-            el.addClass('vr-option-correct');
+        optionElements.forEach((el, i) => {
+          if (options[i] === question.correctAnswer) {
+            this.markChoice(el, 'vr-option-correct', 'correct answer');
           } else if (el.hasClass('vr-option-selected') && !correct) {
-            el.addClass('vr-option-wrong');
+            this.markChoice(el, 'vr-option-wrong', 'your answer, wrong');
           }
         });
 
-        const explanationEl = feedbackContainer.createDiv({
-          cls: 'vr-explanation',
-        });
-        explanationEl.createEl('strong', { text: 'Explanation: ' });
-        explanationEl.createSpan({ text: explanation });
+        this.renderExplanation(feedbackContainer, explanation, question.sourceNote);
+        return this.summarizeFeedback(feedbackContainer, correct ? undefined : question.correctAnswer);
       },
-      disable: () => {
-        optionElements.forEach((el) => {
-          el.addClass('vr-disabled');
-          const radio = el.querySelector('input');
-          if (radio) radio.disabled = true;
+      disable: () => this.disableChoices(optionElements),
+    };
+  }
+
+  /**
+   * Renders a multi-select question as a group of checkboxes.
+   */
+  private renderMultiSelect(question: MultiSelectQuestion): RenderResult {
+    const container = document.createElement('div');
+    container.addClass('vr-question', 'vr-question-ms');
+
+    // Question text
+    const questionText = container.createDiv({ cls: 'vr-question-text' });
+    this.renderMarkdown(questionText, question.question, question.sourceNote);
+
+    const hint = container.createDiv({ cls: 'vr-question-hint' });
+    hint.textContent = 'Select all that apply';
+
+    // Shuffle options
+    const options = shuffledCopy([
+      ...question.correctAnswers,
+      ...question.incorrectAnswers,
+    ]);
+
+    const selected = new Set<string>();
+    const optionElements = this.renderChoices(
+      container,
+      questionText,
+      options,
+      'checkbox',
+      (label, option) => this.renderMarkdown(label.createSpan({ cls: 'vr-option-label' }), option, question.sourceNote),
+      (option, checked) => {
+        if (checked) {
+          selected.add(option);
+        } else {
+          selected.delete(option);
+        }
+      }
+    );
+
+    // Feedback container (hidden initially)
+    const feedbackContainer = container.createDiv({
+      cls: 'vr-feedback vr-hidden',
+    });
+
+    return {
+      container,
+      getAnswer: () => (selected.size > 0 ? Array.from(selected) : null),
+      handleKey: (key) => this.clickByNumber(key, optionElements),
+      showFeedback: (correct: boolean, explanation: string, result?: QuizResult) => {
+        feedbackContainer.removeClass('vr-hidden');
+        feedbackContainer.addClass(correct ? 'vr-correct' : 'vr-incorrect');
+
+        this.renderResultText(feedbackContainer, correct, result?.credit);
+
+        // Mark each option: correct picks, missed correct answers, wrong picks
+        optionElements.forEach((el, i) => {
+          const value = options[i] ?? '';
+          const isCorrect = question.correctAnswers.includes(value);
+          const isSelected = selected.has(value);
+          if (isCorrect && isSelected) {
+            this.markChoice(el, 'vr-option-correct', 'correct');
+          } else if (isCorrect) {
+            this.markChoice(el, 'vr-option-missed', 'missed, correct answer');
+          } else if (isSelected) {
+            this.markChoice(el, 'vr-option-wrong', 'wrong');
+          }
         });
+
+        this.renderExplanation(feedbackContainer, explanation, question.sourceNote);
+        return this.summarizeFeedback(feedbackContainer);
       },
+      disable: () => this.disableChoices(optionElements),
     };
   }
 
@@ -136,23 +279,21 @@ export class QuestionRenderer {
     const container = document.createElement('div');
     container.addClass('vr-question', 'vr-question-fill');
 
-    // Parse question text and insert input fields where ___ appears
+    // Render the question text, then put input fields where ___ appears
     const questionContainer = container.createDiv({ cls: 'vr-question-text' });
-    const parts = question.question.split('___');
+    const blankCount = question.question.split(BLANK_PLACEHOLDER).length - 1;
     const inputs: HTMLInputElement[] = [];
 
-    parts.forEach((part, index) => {
-      questionContainer.createSpan({ text: part });
+    for (let index = 0; index < blankCount; index++) {
+      const input = document.createElement('input');
+      input.type = 'text';
+      input.addClass('vr-blank-input');
+      input.placeholder = `blank ${index + 1}`;
+      input.setAttr('aria-label', `Blank ${index + 1}`);
+      inputs.push(input);
+    }
 
-      if (index < parts.length - 1) {
-        const input = questionContainer.createEl('input', {
-          type: 'text',
-          cls: 'vr-blank-input',
-          attr: { placeholder: `blank ${index + 1}` },
-        });
-        inputs.push(input);
-      }
-    });
+    const ready = this.renderFillBlankText(questionContainer, question, inputs);
 
     // Feedback container (hidden initially)
     const feedbackContainer = container.createDiv({
@@ -169,12 +310,11 @@ export class QuestionRenderer {
         }
         return answers;
       },
-      showFeedback: (correct: boolean, explanation: string) => {
+      showFeedback: (correct: boolean, explanation: string, result?: QuizResult) => {
         feedbackContainer.removeClass('vr-hidden');
         feedbackContainer.addClass(correct ? 'vr-correct' : 'vr-incorrect');
 
-        const resultText = feedbackContainer.createDiv({ cls: 'vr-result' });
-        resultText.textContent = correct ? 'Correct!' : 'Incorrect';
+        this.renderResultText(feedbackContainer, correct);
 
         // Show correct answers
         if (!correct) {
@@ -185,28 +325,24 @@ export class QuestionRenderer {
           correctAnswers.createSpan({ text: question.blanks.join(', ') });
         }
 
-        // Highlight inputs
+        // Highlight inputs using the grader's per-blank results
         inputs.forEach((input, index) => {
-          const userAnswer = input.value.trim().toLowerCase();
-          const correctAnswer = question.blanks[index]?.toLowerCase() ?? '';
-          if (userAnswer === correctAnswer) {
+          if (result?.partsCorrect?.[index] ?? correct) {
             input.addClass('vr-input-correct');
           } else {
             input.addClass('vr-input-wrong');
           }
         });
 
-        const explanationEl = feedbackContainer.createDiv({
-          cls: 'vr-explanation',
-        });
-        explanationEl.createEl('strong', { text: 'Explanation: ' });
-        explanationEl.createSpan({ text: explanation });
+        this.renderExplanation(feedbackContainer, explanation, question.sourceNote);
+        return this.summarizeFeedback(feedbackContainer);
       },
       disable: () => {
         inputs.forEach((input) => {
           input.disabled = true;
         });
       },
+      ready,
     };
   }
 
@@ -219,33 +355,39 @@ export class QuestionRenderer {
 
     // Question text
     const questionText = container.createDiv({ cls: 'vr-question-text' });
-    questionText.textContent = question.question;
+    this.renderMarkdown(questionText, question.question, question.sourceNote);
 
-    // True/False buttons
-    const buttonsContainer = container.createDiv({ cls: 'vr-tf-buttons' });
+    // True/False buttons, toggled like a pair of radio buttons
+    const buttonsContainer = container.createDiv({
+      cls: 'vr-tf-buttons',
+      attr: { role: 'group', 'aria-labelledby': this.getElementId(questionText) },
+    });
 
     let selectedValue: boolean | null = null;
 
     const trueBtn = buttonsContainer.createEl('button', {
       cls: 'vr-tf-btn',
       text: 'True',
+      attr: { 'aria-pressed': 'false' },
     });
     const falseBtn = buttonsContainer.createEl('button', {
       cls: 'vr-tf-btn',
       text: 'False',
+      attr: { 'aria-pressed': 'false' },
     });
+    this.addShortcutHint(trueBtn, 'T');
+    this.addShortcutHint(falseBtn, 'F');
 
-    trueBtn.addEventListener('click', () => {
-      trueBtn.addClass('vr-tf-selected');
-      falseBtn.removeClass('vr-tf-selected');
-      selectedValue = true;
-    });
+    const select = (value: boolean) => {
+      trueBtn.toggleClass('vr-tf-selected', value);
+      trueBtn.setAttr('aria-pressed', String(value));
+      falseBtn.toggleClass('vr-tf-selected', !value);
+      falseBtn.setAttr('aria-pressed', String(!value));
+      selectedValue = value;
+    };
 
-    falseBtn.addEventListener('click', () => {
-      falseBtn.addClass('vr-tf-selected');
-      trueBtn.removeClass('vr-tf-selected');
-      selectedValue = false;
-    });
+    trueBtn.addEventListener('click', () => select(true));
+    falseBtn.addEventListener('click', () => select(false));
 
     // Feedback container (hidden initially)
     const feedbackContainer = container.createDiv({
@@ -255,12 +397,16 @@ export class QuestionRenderer {
     return {
       container,
       getAnswer: () => selectedValue,
+      handleKey: (key) => {
+        const button = { t: trueBtn, f: falseBtn }[key.toLowerCase()];
+        button?.click();
+        return button !== undefined;
+      },
       showFeedback: (correct: boolean, explanation: string) => {
         feedbackContainer.removeClass('vr-hidden');
         feedbackContainer.addClass(correct ? 'vr-correct' : 'vr-incorrect');
 
-        const resultText = feedbackContainer.createDiv({ cls: 'vr-result' });
-        resultText.textContent = correct ? 'Correct!' : 'Incorrect';
+        this.renderResultText(feedbackContainer, correct);
 
         // Highlight correct answer
         const correctBtn = question.correctAnswer ? trueBtn : falseBtn;
@@ -271,11 +417,8 @@ export class QuestionRenderer {
           wrongBtn.addClass('vr-tf-wrong');
         }
 
-        const explanationEl = feedbackContainer.createDiv({
-          cls: 'vr-explanation',
-        });
-        explanationEl.createEl('strong', { text: 'Explanation: ' });
-        explanationEl.createSpan({ text: explanation });
+        this.renderExplanation(feedbackContainer, explanation, question.sourceNote);
+        return this.summarizeFeedback(feedbackContainer);
       },
       disable: () => {
         trueBtn.disabled = true;
@@ -283,4 +426,873 @@ export class QuestionRenderer {
       },
     };
   }
+
+  /**
+   * Renders an ordering question as a reorderable list.
+   * Items can be dragged, moved with the arrow buttons, or moved from the
+   * keyboard with Alt + Up/Down (plain Up/Down moves focus between items).
+   */
+  private renderOrdering(question: OrderingQuestion): RenderResult {
+    const container = document.createElement('div');
+    container.addClass('vr-question', 'vr-question-order');
+
+    // Question text
+    const questionText = container.createDiv({ cls: 'vr-question-text' });
+    this.renderMarkdown(questionText, question.question, question.sourceNote);
+
+    const hint = container.createDiv({ cls: 'vr-question-hint' });
+    hint.textContent = 'Drag items into the correct order, or use Alt + arrow keys';
+
+    const list = container.createEl('ol', { cls: 'vr-order-list' });
+
+    // Shuffle, making sure the items don't start out already in order
+    const order = shuffledCopy(question.items);
+    if (order.length > 1 && order.every((item, i) => item === question.items[i])) {
+      const first = order.shift();
+      if (first !== undefined) {
+        order.push(first);
+      }
+    }
+
+    let disabled = false;
+    let revealed = false;
+    let dragIndex: number | null = null;
+
+    const focusItem = (index: number) => {
+      const target = list.children[index];
+      if (target instanceof HTMLElement) target.focus();
+    };
+
+    const move = (from: number, to: number) => {
+      if (disabled || to < 0 || to >= order.length || from === to) return;
+      const [item] = order.splice(from, 1);
+      if (item === undefined) return;
+      order.splice(to, 0, item);
+      renderList();
+      focusItem(to);
+    };
+
+    const renderList = () => {
+      list.empty();
+      order.forEach((item, index) => {
+        const itemEl = list.createEl('li', {
+          cls: 'vr-order-item',
+          attr: { tabindex: disabled ? '-1' : '0', draggable: disabled ? 'false' : 'true' },
+        });
+
+        itemEl.createSpan({ cls: 'vr-order-handle', text: '\u2261' });
+        const label = itemEl.createSpan({ cls: 'vr-option-label' });
+        this.renderMarkdown(label, item, question.sourceNote);
+
+        const upBtn = itemEl.createEl('button', {
+          cls: 'vr-order-move',
+          text: '\u2191',
+          attr: { 'aria-label': 'Move up' },
+        });
+        upBtn.disabled = disabled || index === 0;
+        upBtn.addEventListener('click', () => move(index, index - 1));
+
+        const downBtn = itemEl.createEl('button', {
+          cls: 'vr-order-move',
+          text: '\u2193',
+          attr: { 'aria-label': 'Move down' },
+        });
+        downBtn.disabled = disabled || index === order.length - 1;
+        downBtn.addEventListener('click', () => move(index, index + 1));
+
+        if (revealed) {
+          itemEl.addClass(item === question.items[index] ? 'vr-order-correct' : 'vr-order-wrong');
+        }
+
+        itemEl.addEventListener('keydown', (e) => {
+          if (disabled || e.target !== itemEl) return;
+          if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+            e.preventDefault();
+            const offset = e.key === 'ArrowUp' ? -1 : 1;
+            if (e.altKey) {
+              move(index, index + offset);
+            } else {
+              focusItem(index + offset);
+            }
+          }
+        });
+
+        itemEl.addEventListener('dragstart', () => {
+          dragIndex = index;
+          itemEl.addClass('vr-order-dragging');
+        });
+        itemEl.addEventListener('dragover', (e) => {
+          e.preventDefault();
+        });
+        itemEl.addEventListener('drop', (e) => {
+          e.preventDefault();
+          if (dragIndex !== null) move(dragIndex, index);
+          dragIndex = null;
+        });
+        itemEl.addEventListener('dragend', () => {
+          dragIndex = null;
+          itemEl.removeClass('vr-order-dragging');
+        });
+      });
+    };
+
+    renderList();
+
+    // Feedback container (hidden initially)
+    const feedbackContainer = container.createDiv({
+      cls: 'vr-feedback vr-hidden',
+    });
+
+    return {
+      container,
+      getAnswer: () => [...order],
+      showFeedback: (correct: boolean, explanation: string) => {
+        feedbackContainer.removeClass('vr-hidden');
+        feedbackContainer.addClass(correct ? 'vr-correct' : 'vr-incorrect');
+
+        this.renderResultText(feedbackContainer, correct);
+
+        // Mark items in the right and wrong positions
+        revealed = true;
+        renderList();
+
+        // Show correct order
+        if (!correct) {
+          const correctOrder = feedbackContainer.createDiv({
+            cls: 'vr-correct-answers',
+          });
+          correctOrder.createEl('strong', { text: 'Correct order: ' });
+          correctOrder.createSpan({ text: question.items.join(' \u2192 ') });
+        }
+
+        this.renderExplanation(feedbackContainer, explanation, question.sourceNote);
+        return this.summarizeFeedback(feedbackContainer);
+      },
+      disable: () => {
+        disabled = true;
+        renderList();
+      },
+    };
+  }
+
+  /**
+   * Renders a matching question: each left item gets a dropdown of the
+   * shuffled right items.
+   */
+  private renderMatching(question: MatchingQuestion): RenderResult {
+    const container = document.createElement('div');
+    container.addClass('vr-question', 'vr-question-match');
+
+    // Question text
+    const questionText = container.createDiv({ cls: 'vr-question-text' });
+    this.renderMarkdown(questionText, question.question, question.sourceNote);
+
+    const pairsContainer = container.createDiv({ cls: 'vr-match-pairs' });
+    const rightOptions = shuffledCopy(question.pairs.map((pair) => pair.right));
+    const selects: HTMLSelectElement[] = [];
+    const rows: HTMLElement[] = [];
+
+    question.pairs.forEach((pair, index) => {
+      const row = pairsContainer.createDiv({ cls: 'vr-match-row' });
+      rows.push(row);
+
+      const left = row.createSpan({ cls: 'vr-match-left' });
+      this.renderMarkdown(left, pair.left, question.sourceNote);
+
+      const select = row.createEl('select', {
+        cls: 'dropdown vr-match-select',
+        attr: { 'aria-label': `Match for ${pair.left}` },
+      });
+      select.createEl('option', { text: 'Choose...', value: '' });
+      for (const option of rightOptions) {
+        select.createEl('option', { text: option, value: option });
+      }
+      selects.push(select);
+    });
+
+    // Feedback container (hidden initially)
+    const feedbackContainer = container.createDiv({
+      cls: 'vr-feedback vr-hidden',
+    });
+
+    return {
+      container,
+      getAnswer: () => {
+        const answers = selects.map((select) => select.value);
+        // Return null until every left item has a match
+        if (answers.some((a) => a === '')) {
+          return null;
+        }
+        return answers;
+      },
+      showFeedback: (correct: boolean, explanation: string, result?: QuizResult) => {
+        feedbackContainer.removeClass('vr-hidden');
+        feedbackContainer.addClass(correct ? 'vr-correct' : 'vr-incorrect');
+
+        this.renderResultText(feedbackContainer, correct, result?.credit);
+
+        // Per-pair feedback, with the right answer shown for misses
+        question.pairs.forEach((pair, index) => {
+          const row = rows[index];
+          const select = selects[index];
+          if (!row || !select) return;
+
+          if (select.value === pair.right) {
+            row.addClass('vr-match-correct');
+          } else {
+            row.addClass('vr-match-wrong');
+            row.createSpan({ cls: 'vr-match-answer', text: `\u2192 ${pair.right}` });
+          }
+        });
+
+        this.renderExplanation(feedbackContainer, explanation, question.sourceNote);
+        return this.summarizeFeedback(feedbackContainer);
+      },
+      disable: () => {
+        selects.forEach((select) => {
+          select.disabled = true;
+        });
+      },
+    };
+  }
+
+  /**
+   * Renders a short answer question with a single free-text input.
+   */
+  private renderShortAnswer(question: ShortAnswerQuestion): RenderResult {
+    const container = document.createElement('div');
+    container.addClass('vr-question', 'vr-question-short');
+
+    // Question text
+    const questionText = container.createDiv({ cls: 'vr-question-text' });
+    this.renderMarkdown(questionText, question.question, question.sourceNote);
+
+    const input = container.createEl('input', {
+      type: 'text',
+      cls: 'vr-short-input',
+      attr: { placeholder: 'Type your answer', 'aria-label': 'Your answer' },
+    });
+
+    // Feedback container (hidden initially)
+    const feedbackContainer = container.createDiv({
+      cls: 'vr-feedback vr-hidden',
+    });
+
+    return {
+      container,
+      getAnswer: () => {
+        const answer = input.value.trim();
+        return answer === '' ? null : answer;
+      },
+      showFeedback: (correct: boolean, explanation: string) => {
+        feedbackContainer.removeClass('vr-hidden');
+        feedbackContainer.addClass(correct ? 'vr-correct' : 'vr-incorrect');
+
+        this.renderResultText(feedbackContainer, correct);
+
+        input.addClass(correct ? 'vr-input-correct' : 'vr-input-wrong');
+
+        // Show the expected answer (and aliases) when wrong
+        if (!correct) {
+          const correctAnswers = feedbackContainer.createDiv({
+            cls: 'vr-correct-answers',
+          });
+          correctAnswers.createEl('strong', { text: 'Correct answer: ' });
+          correctAnswers.createSpan({
+            text: [question.answer, ...(question.acceptedAnswers ?? [])].join(' / '),
+          });
+        }
+
+        this.renderExplanation(feedbackContainer, explanation, question.sourceNote);
+        return this.summarizeFeedback(feedbackContainer);
+      },
+      disable: () => {
+        input.disabled = true;
+      },
+    };
+  }
+
+  /**
+   * Renders a numeric question with a number input and the expected unit.
+   * Answers may include a different, compatible unit (e.g. "1536 MB").
+   */
+  private renderNumeric(question: NumericQuestion): RenderResult {
+    const container = document.createElement('div');
+    container.addClass('vr-question', 'vr-question-numeric');
+
+    // Question text
+    const questionText = container.createDiv({ cls: 'vr-question-text' });
+    this.renderMarkdown(questionText, question.question, question.sourceNote);
+
+    const inputRow = container.createDiv({ cls: 'vr-numeric-row' });
+    const input = inputRow.createEl('input', {
+      type: 'text',
+      cls: 'vr-numeric-input',
+      attr: {
+        inputmode: 'decimal',
+        placeholder: question.unit ? 'Number, or number with unit' : 'Number',
+        'aria-label': question.unit ? `Your answer in ${question.unit}` : 'Your answer',
+      },
+    });
+    if (question.unit) {
+      inputRow.createSpan({ cls: 'vr-numeric-unit', text: question.unit });
+    }
+
+    // Feedback container (hidden initially)
+    const feedbackContainer = container.createDiv({
+      cls: 'vr-feedback vr-hidden',
+    });
+
+    return {
+      container,
+      getAnswer: () => {
+        const answer = input.value.trim();
+        return answer === '' ? null : answer;
+      },
+      showFeedback: (correct: boolean, explanation: string) => {
+        feedbackContainer.removeClass('vr-hidden');
+        feedbackContainer.addClass(correct ? 'vr-correct' : 'vr-incorrect');
+
+        this.renderResultText(feedbackContainer, correct);
+
+        input.addClass(correct ? 'vr-input-correct' : 'vr-input-wrong');
+
+        // Show the expected value with its tolerance
+        if (!correct) {
+          let expected = `${question.answer}${question.unit ? ` ${question.unit}` : ''}`;
+          if (question.tolerance) {
+            expected +=
+              question.toleranceType === 'relative'
+                ? ` (\u00b1${question.tolerance * 100}%)`
+                : ` (\u00b1${question.tolerance})`;
+          }
+          const correctAnswers = feedbackContainer.createDiv({
+            cls: 'vr-correct-answers',
+          });
+          correctAnswers.createEl('strong', { text: 'Correct answer: ' });
+          correctAnswers.createSpan({ text: expected });
+        }
+
+        this.renderExplanation(feedbackContainer, explanation, question.sourceNote);
+        return this.summarizeFeedback(feedbackContainer);
+      },
+      disable: () => {
+        input.disabled = true;
+      },
+    };
+  }
+
+  /**
+   * Renders a flashcard: the front first, then the back and self-grade buttons once revealed.
+   */
+  private renderFlashcard(question: FlashcardQuestion): RenderResult {
+    const container = document.createElement('div');
+    container.addClass('vr-question', 'vr-question-flashcard');
+
+    const front = container.createDiv({ cls: 'vr-question-text vr-flashcard-front' });
+    this.renderMarkdown(front, question.front, question.sourceNote);
+
+    const revealBtn = container.createEl('button', {
+      cls: 'vr-flashcard-reveal',
+      text: 'Show answer',
+    });
+    this.addShortcutHint(revealBtn, 'Space');
+
+    const back = container.createDiv({ cls: 'vr-flashcard-back vr-hidden', attr: { tabindex: '-1' } });
+    this.renderMarkdown(back, question.back, question.sourceNote);
+
+    const gradesContainer = container.createDiv({ cls: 'vr-flashcard-grades vr-hidden' });
+    const gradesHint = gradesContainer.createDiv({
+      cls: 'vr-question-hint',
+      text: 'How well did you recall it?',
+    });
+    const gradeButtons = gradesContainer.createDiv({
+      cls: 'vr-flashcard-grade-buttons',
+      attr: { role: 'group', 'aria-labelledby': this.getElementId(gradesHint) },
+    });
+
+    let selectedGrade: FlashcardGrade | null = null;
+    const buttons: HTMLButtonElement[] = [];
+
+    FLASHCARD_GRADES.forEach((grade) => {
+      const btn = gradeButtons.createEl('button', {
+        cls: `vr-flashcard-grade vr-flashcard-grade-${grade}`,
+        text: this.getGradeLabel(grade),
+        attr: { 'aria-pressed': 'false' },
+      });
+      this.addShortcutHint(btn, buttons.length + 1);
+      btn.addEventListener('click', () => {
+        buttons.forEach((b) => {
+          b.removeClass('vr-flashcard-grade-selected');
+          b.setAttr('aria-pressed', 'false');
+        });
+        btn.addClass('vr-flashcard-grade-selected');
+        btn.setAttr('aria-pressed', 'true');
+        selectedGrade = grade;
+      });
+      buttons.push(btn);
+    });
+
+    revealBtn.addEventListener('click', () => {
+      if (revealBtn.hasClass('vr-hidden')) return;
+      back.removeClass('vr-hidden');
+      gradesContainer.removeClass('vr-hidden');
+      revealBtn.addClass('vr-hidden');
+      // The button disappears, so focus moves on to the answer it revealed
+      back.focus();
+    });
+
+    const feedbackContainer = container.createDiv({
+      cls: 'vr-feedback vr-hidden',
+    });
+
+    return {
+      container,
+      getAnswer: () => selectedGrade,
+      handleKey: (key) => {
+        if (key === ' ') {
+          revealBtn.click();
+          return true;
+        }
+        // Grading straight away also reveals the back
+        if (this.clickByNumber(key, buttons)) {
+          revealBtn.click();
+          return true;
+        }
+        return false;
+      },
+      showFeedback: (correct: boolean, explanation: string) => {
+        feedbackContainer.removeClass('vr-hidden');
+        feedbackContainer.addClass(correct ? 'vr-correct' : 'vr-incorrect');
+
+        const resultText = feedbackContainer.createDiv({ cls: 'vr-result' });
+        resultText.textContent = selectedGrade
+          ? `Graded: ${this.getGradeLabel(selectedGrade)}`
+          : 'Not graded';
+
+        if (explanation) {
+          this.renderExplanation(feedbackContainer, explanation, question.sourceNote);
+        }
+        return this.summarizeFeedback(feedbackContainer);
+      },
+      disable: () => {
+        revealBtn.disabled = true;
+        buttons.forEach((b) => (b.disabled = true));
+      },
+    };
+  }
+
+  /**
+   * Renders an image occlusion question: the image with numbered masks over
+   * each region, and an input per region to name it.
+   */
+  private renderImageOcclusion(question: ImageOcclusionQuestion): RenderResult {
+    const container = document.createElement('div');
+    container.addClass('vr-question', 'vr-question-occlusion');
+
+    const questionText = container.createDiv({ cls: 'vr-question-text' });
+    this.renderMarkdown(questionText, question.question, question.sourceNote);
+
+    const figure = container.createDiv({ cls: 'vr-occlusion-figure' });
+    figure.appendChild(this.createImage(question.image, question.sourceNote));
+
+    const masks = question.regions.map((region, index) => {
+      const mask = figure.createDiv({ cls: 'vr-occlusion-mask' });
+      mask.setCssProps({
+        '--vr-region-x': `${region.x * 100}%`,
+        '--vr-region-y': `${region.y * 100}%`,
+        '--vr-region-width': `${region.width * 100}%`,
+        '--vr-region-height': `${region.height * 100}%`,
+      });
+      mask.createSpan({ cls: 'vr-occlusion-number', text: String(index + 1) });
+      return mask;
+    });
+
+    const inputsContainer = container.createDiv({ cls: 'vr-occlusion-inputs' });
+    const inputs = question.regions.map((_, index) => {
+      const row = inputsContainer.createDiv({ cls: 'vr-occlusion-row' });
+      row.createSpan({ cls: 'vr-occlusion-number', text: String(index + 1) });
+      return row.createEl('input', {
+        type: 'text',
+        cls: 'vr-blank-input',
+        attr: { placeholder: `region ${index + 1}`, 'aria-label': `Region ${index + 1}` },
+      });
+    });
+
+    const feedbackContainer = container.createDiv({
+      cls: 'vr-feedback vr-hidden',
+    });
+
+    return {
+      container,
+      getAnswer: () => {
+        const answers = inputs.map((input) => input.value.trim());
+        // Return null if any region is unnamed
+        if (answers.some((a) => a === '')) {
+          return null;
+        }
+        return answers;
+      },
+      showFeedback: (correct: boolean, explanation: string, result?: QuizResult) => {
+        feedbackContainer.removeClass('vr-hidden');
+        feedbackContainer.addClass(correct ? 'vr-correct' : 'vr-incorrect');
+
+        this.renderResultText(feedbackContainer, correct, result?.credit);
+
+        // Reveal each region's label, marked with the grader's per-region result
+        question.regions.forEach((region, index) => {
+          const regionCorrect = result?.partsCorrect?.[index] ?? correct;
+          masks[index]?.addClass('vr-occlusion-revealed', regionCorrect ? 'vr-occlusion-correct' : 'vr-occlusion-wrong');
+          masks[index]?.createSpan({ cls: 'vr-occlusion-label', text: region.label });
+          inputs[index]?.addClass(regionCorrect ? 'vr-input-correct' : 'vr-input-wrong');
+        });
+
+        if (!correct) {
+          const correctAnswers = feedbackContainer.createDiv({
+            cls: 'vr-correct-answers',
+          });
+          correctAnswers.createEl('strong', { text: 'Correct answers: ' });
+          correctAnswers.createSpan({
+            text: question.regions.map((r, i) => `${i + 1}. ${r.label}`).join(', '),
+          });
+        }
+
+        this.renderExplanation(feedbackContainer, explanation, question.sourceNote);
+        return this.summarizeFeedback(feedbackContainer);
+      },
+      disable: () => {
+        inputs.forEach((input) => {
+          input.disabled = true;
+        });
+      },
+    };
+  }
+
+  /**
+   * Renders a code output question: the prompt, the highlighted snippet, and
+   * either output options to choose from or a box to type the output.
+   */
+  private renderCodeOutput(question: CodeOutputQuestion): RenderResult {
+    const container = document.createElement('div');
+    container.addClass('vr-question', 'vr-question-code');
+
+    const questionText = container.createDiv({ cls: 'vr-question-text' });
+    this.renderMarkdown(questionText, question.question, question.sourceNote);
+
+    // Fence longer than any backtick run in the code so the snippet can't close it early
+    const longestRun = Math.max(0, ...(question.code.match(/`+/g) ?? []).map((run) => run.length));
+    const fence = '`'.repeat(Math.max(3, longestRun + 1));
+    const codeBlock = container.createDiv({ cls: 'vr-code-snippet' });
+    this.renderMarkdown(
+      codeBlock,
+      `${fence}${question.language}\n${question.code}\n${fence}`,
+      question.sourceNote
+    );
+
+    const feedbackContainer = document.createElement('div');
+    feedbackContainer.addClass('vr-feedback', 'vr-hidden');
+
+    const showExpected = (correct: boolean, explanation: string) => {
+      feedbackContainer.removeClass('vr-hidden');
+      feedbackContainer.addClass(correct ? 'vr-correct' : 'vr-incorrect');
+
+      this.renderResultText(feedbackContainer, correct);
+
+      if (!correct) {
+        const correctAnswers = feedbackContainer.createDiv({
+          cls: 'vr-correct-answers',
+        });
+        correctAnswers.createEl('strong', { text: 'Expected output:' });
+        correctAnswers.createEl('pre', { cls: 'vr-code-output', text: question.answer });
+      }
+
+      this.renderExplanation(feedbackContainer, explanation, question.sourceNote);
+      return this.summarizeFeedback(feedbackContainer);
+    };
+
+    // Typed output when there are no options to choose from
+    if (!question.incorrectAnswers) {
+      const input = container.createEl('textarea', {
+        cls: 'vr-code-input',
+        attr: { placeholder: 'Type the output', 'aria-label': 'Output', rows: '4', spellcheck: 'false' },
+      });
+      container.appendChild(feedbackContainer);
+
+      return {
+        container,
+        getAnswer: () => (input.value.trim() === '' ? null : input.value),
+        showFeedback: (correct: boolean, explanation: string) => {
+          input.addClass(correct ? 'vr-input-correct' : 'vr-input-wrong');
+          return showExpected(correct, explanation);
+        },
+        disable: () => {
+          input.disabled = true;
+        },
+      };
+    }
+
+    const options = shuffledCopy([question.answer, ...question.incorrectAnswers]);
+    let selectedOption: string | null = null;
+    const optionElements = this.renderChoices(
+      container,
+      questionText,
+      options,
+      'radio',
+      (label, option) => label.createEl('pre', { cls: 'vr-option-label vr-code-output', text: option }),
+      (option) => {
+        selectedOption = option;
+      }
+    );
+    container.appendChild(feedbackContainer);
+
+    return {
+      container,
+      getAnswer: () => selectedOption,
+      handleKey: (key) => this.clickByNumber(key, optionElements),
+      showFeedback: (correct: boolean, explanation: string) => {
+        optionElements.forEach((el, i) => {
+          if (options[i] === question.answer) {
+            this.markChoice(el, 'vr-option-correct', 'correct answer');
+          } else if (el.hasClass('vr-option-selected') && !correct) {
+            this.markChoice(el, 'vr-option-wrong', 'your answer, wrong');
+          }
+        });
+        return showExpected(correct, explanation);
+      },
+      disable: () => this.disableChoices(optionElements),
+    };
+  }
+
+  /**
+   * Creates an image element for a vault attachment, or a notice if it can't be found.
+   */
+  private createImage(reference: string, sourcePath: string): HTMLElement {
+    const file = resolveAttachment(this.app, reference, sourcePath);
+    if (!file) {
+      const missing = document.createElement('div');
+      missing.addClass('vr-image-missing');
+      missing.textContent = `Image not found: ${reference}`;
+      return missing;
+    }
+
+    const image = document.createElement('img');
+    image.addClass('vr-question-image');
+    image.src = this.app.vault.getResourcePath(file);
+    image.alt = file.basename;
+    return image;
+  }
+
+  /**
+   * Gets the button label for a flashcard self-grade.
+   */
+  private getGradeLabel(grade: FlashcardGrade): string {
+    switch (grade) {
+      case 'again':
+        return 'Again';
+      case 'hard':
+        return 'Hard';
+      case 'good':
+        return 'Good';
+      case 'easy':
+        return 'Easy';
+    }
+  }
+
+  /**
+   * Renders answer options as labelled radio buttons or checkboxes, grouped
+   * under the question text so screen readers announce them as one set.
+   * Returns the option labels in order; clicking one toggles its input.
+   */
+  private renderChoices(
+    container: HTMLElement,
+    questionText: HTMLElement,
+    options: string[],
+    type: 'radio' | 'checkbox',
+    renderLabel: (optionEl: HTMLElement, option: string) => void,
+    onChange: (option: string, checked: boolean) => void
+  ): HTMLElement[] {
+    const optionsContainer = container.createDiv({
+      cls: 'vr-options',
+      attr: {
+        role: type === 'radio' ? 'radiogroup' : 'group',
+        'aria-labelledby': this.getElementId(questionText),
+      },
+    });
+    // Unique per render, so the same question shown twice doesn't share a group
+    const name = `vr-choice-${generateId()}`;
+    const optionElements: HTMLElement[] = [];
+
+    for (const option of options) {
+      const optionEl = optionsContainer.createEl('label', { cls: 'vr-option' });
+      optionElements.push(optionEl);
+      this.addShortcutHint(optionEl, optionElements.length);
+
+      const input = optionEl.createEl('input', { type, attr: { name } });
+      renderLabel(optionEl, option);
+
+      input.addEventListener('change', () => {
+        if (type === 'radio') {
+          optionElements.forEach((el) => el.removeClass('vr-option-selected'));
+        }
+        optionEl.toggleClass('vr-option-selected', input.checked);
+        onChange(option, input.checked);
+      });
+    }
+
+    return optionElements;
+  }
+
+  private disableChoices(optionElements: HTMLElement[]): void {
+    optionElements.forEach((el) => {
+      el.addClass('vr-disabled');
+      const input = el.querySelector('input');
+      if (input) input.disabled = true;
+    });
+  }
+
+  /**
+   * Highlights an option after grading, with the meaning of the colour spelled
+   * out for screen readers.
+   */
+  private markChoice(optionEl: HTMLElement, cls: string, status: string): void {
+    optionEl.addClass(cls);
+    optionEl.createSpan({ cls: 'vr-sr-only', text: ` (${status})` });
+  }
+
+  /**
+   * Gets an element's id, giving it a unique one first if it has none.
+   * Used to point ARIA labels and descriptions at the question text.
+   */
+  private getElementId(el: HTMLElement): string {
+    if (!el.id) {
+      el.id = `vr-${generateId()}`;
+    }
+    return el.id;
+  }
+
+  /**
+   * Adds the shortcut key for an option when hints are enabled.
+   * Number keys only reach 9, so later options get no hint.
+   */
+  private addShortcutHint(el: HTMLElement, key: number | string): void {
+    if (!this.options.showShortcutHints || (typeof key === 'number' && key > 9)) {
+      return;
+    }
+    // Hidden from screen readers, which would otherwise read the key as part of the label
+    el.createEl('kbd', { cls: 'vr-shortcut-hint', text: String(key), attr: { 'aria-hidden': 'true' } });
+  }
+
+  /**
+   * Handles number keys by clicking the matching element (1 is the first).
+   */
+  private clickByNumber(key: string, elements: HTMLElement[]): boolean {
+    if (!/^[1-9]$/.test(key)) {
+      return false;
+    }
+    const element = elements[Number(key) - 1];
+    element?.click();
+    return element !== undefined;
+  }
+
+  /**
+   * Renders markdown into an element, resolving links relative to the source note.
+   */
+  private renderMarkdown(el: HTMLElement, markdown: string, sourcePath: string): void {
+    el.addClass('vr-markdown');
+    void MarkdownRenderer.render(this.app, markdown, el, sourcePath, this);
+  }
+
+  /**
+   * Renders a fill-in-the-blank question as markdown with the inputs in place of each ___.
+   * Blanks are swapped for placeholder tokens before rendering, then the tokens in the
+   * rendered text are replaced by the inputs. Inputs whose token did not survive
+   * rendering (e.g. inside math) are appended at the end so they can still be answered.
+   * @returns Resolves once the inputs are in place
+   */
+  private renderFillBlankText(
+    el: HTMLElement,
+    question: FillBlankQuestion,
+    inputs: HTMLInputElement[]
+  ): Promise<void> {
+    const tokenPattern = /VRBLANK(\d+)VRBLANK/g;
+    const markdown = question.question
+      .split(BLANK_PLACEHOLDER)
+      .map((part, i) => (i === 0 ? part : `VRBLANK${i - 1}VRBLANK${part}`))
+      .join('');
+
+    el.addClass('vr-markdown');
+    return MarkdownRenderer.render(this.app, markdown, el, question.sourceNote, this).then(() => {
+      const walker = document.createTreeWalker(el, NodeFilter.SHOW_TEXT);
+      const textNodes: Text[] = [];
+      while (walker.nextNode()) {
+        textNodes.push(walker.currentNode as Text);
+      }
+
+      const placed = new Set<number>();
+      for (const node of textNodes) {
+        const text = node.textContent ?? '';
+        if (!text.includes('VRBLANK')) continue;
+
+        const fragment = document.createDocumentFragment();
+        let last = 0;
+        for (let match = tokenPattern.exec(text); match; match = tokenPattern.exec(text)) {
+          const input = inputs[Number(match[1])];
+          fragment.appendChild(document.createTextNode(text.slice(last, match.index)));
+          if (input) {
+            fragment.appendChild(input);
+            placed.add(Number(match[1]));
+          }
+          last = match.index + match[0].length;
+        }
+        fragment.appendChild(document.createTextNode(text.slice(last)));
+        node.replaceWith(fragment);
+      }
+
+      inputs.forEach((input, i) => {
+        if (!placed.has(i)) {
+          el.appendChild(input);
+        }
+      });
+    });
+  }
+
+  /**
+   * Renders the explanation under the feedback, as markdown.
+   */
+  private renderExplanation(feedbackContainer: HTMLElement, explanation: string, sourcePath: string): void {
+    const explanationEl = feedbackContainer.createDiv({
+      cls: 'vr-explanation',
+    });
+    explanationEl.createEl('strong', { text: 'Explanation: ' });
+    this.renderMarkdown(explanationEl.createDiv(), explanation, sourcePath);
+  }
+
+  /**
+   * Sums up shown feedback in one line for screen readers: the result and,
+   * when wrong, the correct answer.
+   * @param correctAnswer - Used when the feedback doesn't spell out the correct answer itself
+   */
+  private summarizeFeedback(feedbackContainer: HTMLElement, correctAnswer?: string): string {
+    const result = feedbackContainer.querySelector('.vr-result')?.textContent ?? '';
+    const shown = feedbackContainer.querySelector('.vr-correct-answers')?.textContent;
+    const answer = shown ?? (correctAnswer !== undefined ? `Correct answer: ${correctAnswer}` : '');
+    if (!answer) {
+      return result;
+    }
+    return /[.!?]$/.test(result) ? `${result} ${answer}` : `${result}. ${answer}`;
+  }
+
+  /**
+   * Renders the "Correct!" / "Incorrect" line, noting partial credit when earned.
+   */
+  private renderResultText(feedbackContainer: HTMLElement, correct: boolean, credit?: number): void {
+    const resultText = feedbackContainer.createDiv({ cls: 'vr-result' });
+    if (correct) {
+      resultText.textContent = 'Correct!';
+    } else if (credit !== undefined && credit > 0) {
+      resultText.textContent = `Partially correct (${Math.round(credit * 100)}% credit)`;
+    } else {
+      resultText.textContent = 'Incorrect';
+    }
+  }
 }
@@ -0,0 +1,146 @@
+/**
+ * QuizReview - Per-question breakdown of a finished quiz
+ *
+ * Lists each question with the given answer, the correct answer, the
+ * explanation, time spent and a link back to the source note.
+ */
+
+import { App, Component, MarkdownRenderer } from 'obsidian';
+import type { QuizService } from '../services/quiz-service';
+import type { Question, QuizResult, QuizSession } from '../types';
+import { formatDuration } from '../utils/helpers';
+
+export interface QuizReviewOptions {
+  // Called before a source note is opened, e.g. to close the quiz
+  onOpenSource?: () => void;
+}
+
+export class QuizReview extends Component {
+  constructor(
+    private app: App,
+    private quizService: QuizService,
+    private options: QuizReviewOptions = {}
+  ) {
+    super();
+  }
+
+  /**
+   * Renders one entry per answered question into parentEl.
+   * Entries form a list, each headed by its question, so screen readers can
+   * step through them by item or by heading.
+   */
+  render(parentEl: HTMLElement, session: QuizSession): HTMLElement {
+    const container = parentEl.createEl('ol', { cls: 'vr-review' });
+    const questionsById = new Map(session.questions.map((q) => [q.id, q]));
+
+    session.results.forEach((result, index) => {
+      const question = questionsById.get(result.questionId);
+      if (question) {
+        this.renderItem(container, question, result, index);
+      }
+    });
+
+    return container;
+  }
+
+  private renderItem(
+    container: HTMLElement,
+    question: Question,
+    result: QuizResult,
+    index: number
+  ): void {
+    const item = container.createEl('li', { cls: 'vr-review-item' });
+    item.addClass(this.getStatusClass(result));
+
+    const header = item.createDiv({
+      cls: 'vr-review-header',
+      attr: { role: 'heading', 'aria-level': '4' },
+    });
+    header.createSpan({ cls: 'vr-review-number', text: `${index + 1}.` });
+    header.createSpan({
+      cls: 'vr-review-status',
+      text: result.correct ? '✓' : '✗',
+      attr: { 'aria-hidden': 'true' },
+    });
+    header.createSpan({ cls: 'vr-sr-only', text: `${this.getStatusLabel(result)}: ` });
+    this.renderMarkdown(
+      header.createDiv({ cls: 'vr-review-question' }),
+      question.question,
+      question.sourceNote
+    );
+
+    if (result.answer !== undefined) {
+      this.renderRow(item, 'Your answer', this.quizService.formatAnswer(question, result.answer));
+    } else if (result.timedOut) {
+      this.renderRow(item, 'Your answer', 'None (ran out of time)');
+    }
+    if (!result.correct || result.overridden) {
+      this.renderRow(item, 'Correct answer', this.quizService.formatCorrectAnswer(question));
+    }
+
+    if (question.explanation) {
+      const explanationEl = item.createDiv({ cls: 'vr-review-explanation' });
+      this.renderMarkdown(explanationEl, question.explanation, question.sourceNote);
+    }
+
+    const footer = item.createDiv({ cls: 'vr-review-footer' });
+    const time = footer.createSpan({ cls: 'vr-review-time' });
+    time.createSpan({ cls: 'vr-sr-only', text: 'Time spent: ' });
+    time.appendText(formatDuration(result.timeSpent));
+    this.renderSourceLink(footer, question);
+  }
+
+  private renderRow(item: HTMLElement, label: string, value: string): void {
+    const row = item.createDiv({ cls: 'vr-review-row' });
+    row.createSpan({ cls: 'vr-review-label', text: `${label}: ` });
+    row.createSpan({ cls: 'vr-review-value', text: value });
+  }
+
+  /**
+   * Links to the question's source note, at its heading when known.
+   * Opens in a new tab.
+   */
+  private renderSourceLink(footer: HTMLElement, question: Question): void {
+    const noteName = question.sourceNote.split('/').pop()?.replace(/\.md$/, '') ?? question.sourceNote;
+    const linktext = question.sourceHeading
+      ? `${question.sourceNote}#${question.sourceHeading}`
+      : question.sourceNote;
+
+    const link = footer.createEl('a', {
+      cls: 'vr-review-source',
+      text: question.sourceHeading ? `${noteName} › ${question.sourceHeading}` : noteName,
+      href: '#',
+    });
+    link.addEventListener('click', (evt) => {
+      evt.preventDefault();
+      this.options.onOpenSource?.();
+      void this.app.workspace.openLinkText(linktext, '', 'tab');
+    });
+  }
+
+  private getStatusClass(result: QuizResult): string {
+    if (result.correct) {
+      return 'vr-review-correct';
+    }
+    return this.isPartial(result) ? 'vr-review-partial' : 'vr-review-incorrect';
+  }
+
+  /**
+   * Spells out the status the colour and tick or cross show.
+   */
+  private getStatusLabel(result: QuizResult): string {
+    if (result.correct) {
+      return 'Correct';
+    }
+    return this.isPartial(result) ? 'Partially correct' : 'Incorrect';
+  }
+
+  private isPartial(result: QuizResult): boolean {
+    return result.credit !== undefined && result.credit > 0;
+  }
+
+  private renderMarkdown(el: HTMLElement, markdown: string, sourcePath: string): void {
+    el.addClass('vr-markdown');
+    void MarkdownRenderer.render(this.app, markdown, el, sourcePath, this);
+  }
+}
@@ -2,7 +2,7 @@
  * Vault Recall - Constants and Defaults
  */
 
-import type { Config } from './types';
+import type { Config, ExamSettings } from './types';
 
 // File paths (relative to vault root)
 export const QUIZ_FOLDER = '.quiz';
@@ -11,7 +11,18 @@ export const QUESTIONS_FILE = 'questions.json';
 export const PENDING_FILE = 'pending.json';
 export const HISTORY_FILE = 'history.json';
 export const IMPORT_FILE = 'import.json';
+export const REVIEW_FILE = 'review.json';
+export const SESSION_FILE = 'session.json';
 export const CLAUDE_FILE = 'CLAUDE.md';
+// Backups of data files, kept in a subfolder of .quiz/
+export const BACKUP_FOLDER = 'backups';
+// Damaged files waiting to be restored or reset, kept in the backup folder
+export const QUARANTINE_FILE = 'quarantine.json';
+// Regular backups kept per file, and the least time between two of them
+export const BACKUP_COUNT = 10;
+export const BACKUP_INTERVAL_MS = 60 * 60 * 1000;
+// Data files are written to a temporary file first, then renamed into place
+export const TEMP_FILE_SUFFIX = '.tmp';
 
 // Full paths helper
 export const getQuizPath = (filename: string): string => `${QUIZ_FOLDER}/${filename}`;
@@ -26,11 +37,40 @@ export const DEFAULT_CONFIG: Config = {
   },
   preferences: {
     questionsPerNote: 5,
-    questionTypes: ['multiple_choice', 'fill_blank', 'true_false'],
+    // General-purpose types; the specialised ones are opted into in settings
+    questionTypes: ['multiple_choice', 'fill_blank', 'true_false', 'short_answer'],
     difficulty: 'medium',
     includeRelatedConcepts: true,
     customPrompt: '',
   },
+  scheduling: {
+    algorithm: 'sm2',
+    desiredRetention: 0.9,
+    leitnerCadence: [1, 2, 4, 8, 16],
+  },
+  sampling: {
+    strategy: 'interleave',
+    maxPerNote: 0,
+  },
+  grading: {
+    partialCredit: false,
+    fuzzyMatching: true,
+    askConfidence: false,
+  },
+  drill: {
+    weakThreshold: 0.4,
+    questionCount: 10,
+    recentAttempts: 5,
+  },
+  keyboard: {
+    shortcuts: true,
+    showHints: true,
+  },
+  cloze: {
+    highlights: true,
+    ankiSyntax: true,
+    customPattern: '',
+  },
 };
 
 // Empty file defaults
@@ -49,13 +89,68 @@ export const EMPTY_HISTORY_FILE = {
   attempts: [],
 };
 
+export const EMPTY_REVIEW_FILE = {
+  version: 1,
+  reviews: {},
+};
+
 // View identifiers
 export const SIDEBAR_VIEW_TYPE = 'vault-recall-sidebar';
+export const EMBED_BLOCK_LANGUAGE = 'vault-recall';
 
 // Question validation
-export const VALID_QUESTION_TYPES = ['multiple_choice', 'fill_blank', 'true_false'] as const;
+export const VALID_QUESTION_TYPES = [
+  'multiple_choice',
+  'multi_select',
+  'fill_blank',
+  'true_false',
+  'ordering',
+  'matching',
+  'short_answer',
+  'numeric',
+  'flashcard',
+  'image_occlusion',
+  'code_output',
+] as const;
 export const VALID_DIFFICULTIES = ['easy', 'medium', 'hard'] as const;
+export const VALID_QUESTION_ORIGINS = ['cloze', 'inline'] as const;
+
+// Prefixes for IDs of questions extracted from notes
+export const CLOZE_ID_PREFIX = 'cloze_';
+export const INLINE_ID_PREFIX = 'inline_';
+
+// Delay after a note's last edit before its inline questions are re-parsed
+export const INLINE_SYNC_DELAY_MS = 2000;
+
+// Flashcard self-grades, in ReviewRating order (index + 1)
+export const FLASHCARD_GRADES = ['again', 'hard', 'good', 'easy'] as const;
+// Confidence levels, least sure first
+export const CONFIDENCE_LEVELS = ['guess', 'unsure', 'sure'] as const;
+export const VALID_TOLERANCE_TYPES = ['absolute', 'relative'] as const;
 export const VALID_PRIORITIES = ['low', 'normal', 'high'] as const;
+export const VALID_SAMPLING_STRATEGIES = ['random', 'interleave', 'balanced'] as const;
+export const VALID_SCHEDULER_ALGORITHMS = ['sm2', 'fsrs', 'leitner'] as const;
+
+// Adaptive difficulty
+export const ADAPTIVE_START_LEVEL = 'medium';
+export const ADAPTIVE_STEP_UP_STREAK = 3;
+export const ADAPTIVE_STEP_DOWN_MISSES = 2;
+
+// Exam mode (seconds)
+export const DEFAULT_EXAM_SETTINGS: ExamSettings = {
+  timeLimit: 30 * 60,
+  questionTimeLimit: 0,
+};
+// Countdowns turn to a warning below this many seconds
+export const EXAM_WARNING_SECONDS = 60;
+
+// Scheduling
+export const SM2_INITIAL_EASE = 2.5;
+export const SM2_MIN_EASE = 1.3;
+export const FSRS_DEFAULT_WEIGHTS = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474,
+  0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755,
+] as const;
 
 // UI constants
 export const BLANK_PLACEHOLDER = '___';
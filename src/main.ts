@@ -4,15 +4,33 @@
 
 import { FileSystemAdapter, Plugin, Notice, TFile, TFolder, Menu } from 'obsidian';
 import { FileService } from './services/file-service';
+import type { MigrationReport } from './services/file-service';
 import { ValidationService } from './services/validation-service';
 import { StreakService } from './services/streak-service';
 import { ImportService } from './services/import-service';
 import { QuizService } from './services/quiz-service';
+import { SchedulerService } from './services/scheduler-service';
+import { DrillService } from './services/drill-service';
+import { ClozeService } from './services/cloze-service';
+import { InlineQuestionService } from './services/inline-question-service';
+import { SessionService } from './services/session-service';
+import { CalibrationService } from './services/calibration-service';
 import { VaultRecallSettingTab } from './settings';
 import { SidebarView, SIDEBAR_VIEW_TYPE } from './views/sidebar-view';
 import { QuizModal, QuizSourceModal } from './views/quiz-modal';
-import type { Config, PendingNote } from './types';
-import { DEFAULT_CONFIG } from './constants';
+import { EmbeddedQuiz } from './views/embedded-quiz';
+import { CalibrationModal } from './views/calibration-modal';
+import { RestoreModal } from './views/restore-modal';
+import type { Config, PendingNote, QuizAttempt } from './types';
+import type { MigratedFile } from './utils/migrations';
+import {
+  BACKUP_FOLDER,
+  CONFIG_FILE,
+  DEFAULT_CONFIG,
+  EMBED_BLOCK_LANGUAGE,
+  INLINE_SYNC_DELAY_MS,
+  getQuizPath,
+} from './constants';
 import { getCurrentTimestamp } from './utils/helpers';
 
 export default class VaultRecallPlugin extends Plugin {
@@ -21,20 +39,46 @@ export default class VaultRecallPlugin extends Plugin {
   streakService: StreakService;
   importService: ImportService;
   quizService: QuizService;
+  schedulerService: SchedulerService;
+  drillService: DrillService;
+  clozeService: ClozeService;
+  inlineQuestionService: InlineQuestionService;
+  sessionService: SessionService;
+  calibrationService: CalibrationService;
   config: Config;
 
+  // Notes waiting for an inline question sync, and the timer that syncs them together
+  private inlineSyncPaths = new Set<string>();
+  private inlineSyncTimer: number | null = null;
+
   async onload() {
     console.debug('Loading Vault Recall plugin');
 
     // Initialize services
-    this.fileService = new FileService(this.app);
-    this.validationService = new ValidationService();
+    this.fileService = new FileService(
+      this.app,
+      (file, quarantinePath) => {
+        // Damaged files can turn up while the plugin loads, before the workspace is ready
+        this.app.workspace.onLayoutReady(() => this.offerRestore(file, quarantinePath));
+      },
+      (file) => this.warnNewerFile(file)
+    );
+    this.validationService = new ValidationService(this.fileService);
     this.streakService = new StreakService(this.fileService);
     this.importService = new ImportService(
       this.fileService,
       this.validationService
     );
-    this.quizService = new QuizService(this.fileService);
+    this.quizService = new QuizService(this.fileService, () => this.config);
+    this.schedulerService = new SchedulerService(this.fileService);
+    this.drillService = new DrillService(this.fileService);
+    this.clozeService = new ClozeService(this.fileService);
+    this.inlineQuestionService = new InlineQuestionService(
+      this.fileService,
+      this.validationService
+    );
+    this.sessionService = new SessionService(this.fileService);
+    this.calibrationService = new CalibrationService(this.fileService);
 
     // Initialize plugin data
     await this.initializePlugin();
@@ -54,6 +98,9 @@ export default class VaultRecallPlugin extends Plugin {
     // Register context menu items
     this.registerContextMenus();
 
+    // Keep inline questions in sync with their notes
+    this.registerVaultEvents();
+
     // Add settings tab
     this.addSettingTab(new VaultRecallSettingTab(this.app, this));
 
@@ -62,7 +109,10 @@ export default class VaultRecallPlugin extends Plugin {
       void this.activateSidebar();
     });
 
-    // TODO: Phase 4 - Register code block processor
+    // Render vault-recall code blocks as inline quizzes
+    this.registerMarkdownCodeBlockProcessor(EMBED_BLOCK_LANGUAGE, (source, el, ctx) => {
+      ctx.addChild(new EmbeddedQuiz(el, this, source, ctx.sourcePath));
+    });
   }
 
   /**
@@ -73,6 +123,14 @@ export default class VaultRecallPlugin extends Plugin {
       // Ensure .quiz folder exists
       await this.fileService.ensureQuizFolder();
 
+      // Damaged files found in an earlier session stay held back until the user chooses
+      for (const { file, quarantinePath } of await this.fileService.loadQuarantinedFiles()) {
+        this.app.workspace.onLayoutReady(() => this.offerRestore(file, quarantinePath));
+      }
+
+      // Upgrade data files written by older versions before anything reads them
+      this.reportMigrations(await this.fileService.migrateDataFiles());
+
       // Copy CLAUDE.md template if it doesn't exist
       await this.fileService.initializeCLAUDEmd();
 
@@ -89,6 +147,63 @@ export default class VaultRecallPlugin extends Plugin {
     }
   }
 
+  /**
+   * Tells the user which data files were upgraded, and which were left alone
+   * because a newer version of the plugin wrote them or the upgrade failed.
+   */
+  private reportMigrations(report: MigrationReport): void {
+    if (report.migrated.length > 0) {
+      const files = report.migrated.map((m) => m.file).join(', ');
+      new Notice(`Upgraded ${files} to the current format. The originals were backed up to ${getQuizPath(BACKUP_FOLDER)}.`);
+    }
+    for (const { file } of report.newer) {
+      this.warnNewerFile(file);
+    }
+    for (const { file } of report.failed) {
+      // Stays until dismissed: changes to the file won't be saved this session
+      new Notice(
+        `The file ${file} couldn't be upgraded to the current format and won't be changed. Restart Obsidian to try again.`,
+        0
+      );
+    }
+  }
+
+  /**
+   * Warns that a data file was saved by a newer version of the plugin, so
+   * changes to it aren't saved.
+   */
+  private warnNewerFile(file: MigratedFile): void {
+    // Stays until dismissed: changes to the file won't be saved until the plugin is updated
+    new Notice(
+      `The file ${file} was saved by a newer version of Vault Recall and won't be changed. Update the plugin to keep saving to it.`,
+      0
+    );
+  }
+
+  /**
+   * Asks how to recover a damaged data file: restore one of its backups or
+   * start it afresh. Saving to the file is held back until the user chooses.
+   */
+  private offerRestore(file: MigratedFile, quarantinePath: string): void {
+    new RestoreModal(this.app, this.fileService, file, quarantinePath, () => {
+      void this.afterRestore(file);
+    }).open();
+  }
+
+  /**
+   * Reloads what was read from a file before it was restored.
+   */
+  private async afterRestore(file: MigratedFile): Promise<void> {
+    if (file === CONFIG_FILE) {
+      await this.reloadConfig();
+    }
+    for (const leaf of this.app.workspace.getLeavesOfType(SIDEBAR_VIEW_TYPE)) {
+      if (leaf.view instanceof SidebarView) {
+        await leaf.view.refresh();
+      }
+    }
+  }
+
   /**
    * Reload configuration from file
    */
@@ -96,6 +211,17 @@ export default class VaultRecallPlugin extends Plugin {
     this.config = await this.fileService.readConfig();
   }
 
+  /**
+   * Reads the latest config, applies changes, and writes it back.
+   * Reading first avoids clobbering streak data written by other services.
+   */
+  async updateConfig(update: (config: Config) => void): Promise<void> {
+    const config = await this.fileService.readConfig();
+    update(config);
+    await this.fileService.writeConfig(config);
+    this.config = config;
+  }
+
   /**
    * Register all plugin commands
    */
@@ -141,6 +267,31 @@ export default class VaultRecallPlugin extends Plugin {
       },
     });
 
+    // Extract cloze questions from the current note
+    this.addCommand({
+      id: 'extract-cloze-questions',
+      name: 'Extract cloze questions from current note',
+      checkCallback: (checking: boolean) => {
+        const file = this.app.workspace.getActiveFile();
+        if (file && file.extension === 'md') {
+          if (!checking) {
+            void this.extractClozeQuestions([file.path]);
+          }
+          return true;
+        }
+        return false;
+      },
+    });
+
+    // Sync inline questions from every note
+    this.addCommand({
+      id: 'sync-inline-questions',
+      name: 'Sync inline questions from all notes',
+      callback: () => {
+        void this.syncAllInlineQuestions();
+      },
+    });
+
     // Take a quiz
     this.addCommand({
       id: 'take-quiz',
@@ -150,6 +301,58 @@ export default class VaultRecallPlugin extends Plugin {
       },
     });
 
+    // Pick up a paused quiz
+    this.addCommand({
+      id: 'resume-quiz',
+      name: 'Resume paused quiz',
+      callback: () => {
+        void this.resumeQuiz();
+      },
+    });
+
+    // Review questions due today
+    this.addCommand({
+      id: 'review-due-questions',
+      name: 'Review due questions',
+      callback: () => {
+        void this.reviewDueQuestions();
+      },
+    });
+
+    // Drill weakest questions from history
+    this.addCommand({
+      id: 'drill-weak-questions',
+      name: 'Drill my weak questions',
+      callback: () => {
+        void this.drillWeakQuestions();
+      },
+    });
+
+    // Compare confidence ratings to correctness
+    this.addCommand({
+      id: 'show-confidence-calibration',
+      name: 'Show confidence calibration',
+      callback: () => {
+        void this.showCalibration();
+      },
+    });
+
+    // Restore a data file that was found damaged
+    this.addCommand({
+      id: 'restore-damaged-data-file',
+      name: 'Restore damaged data file',
+      checkCallback: (checking: boolean) => {
+        const damaged = this.fileService.getQuarantinedFiles()[0];
+        if (damaged) {
+          if (!checking) {
+            this.offerRestore(damaged.file, damaged.quarantinePath);
+          }
+          return true;
+        }
+        return false;
+      },
+    });
+
     // Open sidebar
     this.addCommand({
       id: 'open-sidebar',
@@ -197,7 +400,7 @@ export default class VaultRecallPlugin extends Plugin {
 
     const sourceNotes = [...new Set(questions.map((q) => q.sourceNote))];
 
-    new QuizSourceModal(this.app, sourceNotes, (source, path) => {
+    new QuizSourceModal(this.app, sourceNotes, this.config.sampling, (source, path, sessionOptions) => {
       void (async () => {
         let quizQuestions = questions;
 
@@ -216,12 +419,152 @@ export default class VaultRecallPlugin extends Plugin {
           this.app,
           this.quizService,
           this.streakService,
-          quizQuestions
+          this.schedulerService,
+          this.sessionService,
+          quizQuestions,
+          {
+            ...sessionOptions,
+            keyboard: this.config.keyboard,
+            askConfidence: this.config.grading.askConfidence,
+          }
         ).open();
       })();
     }).open();
   }
 
+  /**
+   * Reopens the quiz modal on the paused quiz, if there is one
+   */
+  async resumeQuiz(
+    onComplete?: (attempt: QuizAttempt) => void,
+    onLeave?: () => void
+  ): Promise<void> {
+    const saved = await this.sessionService.getPausedSession();
+
+    if (!saved) {
+      new Notice('No paused quiz to resume');
+      return;
+    }
+
+    new QuizModal(
+      this.app,
+      this.quizService,
+      this.streakService,
+      this.schedulerService,
+      this.sessionService,
+      saved.session.questions,
+      {
+        resume: saved,
+        sampling: this.config.sampling,
+        keyboard: this.config.keyboard,
+        askConfidence: this.config.grading.askConfidence,
+        onComplete,
+        onLeave,
+      }
+    ).open();
+  }
+
+  /**
+   * Opens the quiz modal with only the questions due for review today
+   */
+  async reviewDueQuestions(
+    onComplete?: (attempt: QuizAttempt) => void,
+    onLeave?: () => void
+  ): Promise<void> {
+    const questions = await this.quizService.getAllQuestions();
+
+    if (questions.length === 0) {
+      new Notice('No questions available. Add notes to the queue and generate questions first.');
+      return;
+    }
+
+    const dueQuestions = await this.schedulerService.getDueQuestions(questions);
+
+    if (dueQuestions.length === 0) {
+      new Notice('No questions due for review. Come back tomorrow!');
+      return;
+    }
+
+    new QuizModal(
+      this.app,
+      this.quizService,
+      this.streakService,
+      this.schedulerService,
+      this.sessionService,
+      dueQuestions,
+      {
+        sampling: this.config.sampling,
+        keyboard: this.config.keyboard,
+        askConfidence: this.config.grading.askConfidence,
+        onComplete,
+        onLeave,
+      }
+    ).open();
+  }
+
+  /**
+   * Opens the quiz modal with the weakest questions from quiz history
+   */
+  async drillWeakQuestions(
+    onComplete?: (attempt: QuizAttempt) => void,
+    onLeave?: () => void
+  ): Promise<void> {
+    const questions = await this.quizService.getAllQuestions();
+
+    if (questions.length === 0) {
+      new Notice('No questions available. Add notes to the queue and generate questions first.');
+      return;
+    }
+
+    const weakQuestions = await this.drillService.getWeakQuestions(questions);
+
+    if (weakQuestions.length === 0) {
+      new Notice('No weak questions found. Take a few more quizzes first!');
+      return;
+    }
+
+    new QuizModal(
+      this.app,
+      this.quizService,
+      this.streakService,
+      this.schedulerService,
+      this.sessionService,
+      weakQuestions,
+      {
+        sampling: this.config.sampling,
+        keyboard: this.config.keyboard,
+        askConfidence: this.config.grading.askConfidence,
+        onComplete,
+        onLeave,
+      }
+    ).open();
+  }
+
+  /**
+   * Opens the calibration report, which can start a quiz on questions answered wrong while sure
+   */
+  async showCalibration(onComplete?: (attempt: QuizAttempt) => void): Promise<void> {
+    const questions = await this.quizService.getAllQuestions();
+    const report = await this.calibrationService.getReport(questions);
+
+    new CalibrationModal(this.app, report, (confidentlyWrong) => {
+      new QuizModal(
+        this.app,
+        this.quizService,
+        this.streakService,
+        this.schedulerService,
+        this.sessionService,
+        confidentlyWrong,
+        {
+          sampling: this.config.sampling,
+          keyboard: this.config.keyboard,
+          askConfidence: this.config.grading.askConfidence,
+          onComplete,
+        }
+      ).open();
+    }).open();
+  }
+
   /**
    * Register context menu items for files and folders
    */
@@ -247,6 +590,15 @@ export default class VaultRecallPlugin extends Plugin {
                 void this.copyGenerationPrompt(file.path);
               });
           });
+
+          menu.addItem((item) => {
+            item
+              .setTitle('Extract cloze questions')
+              .setIcon('text-cursor-input')
+              .onClick(() => {
+                void this.extractClozeQuestions([file.path]);
+              });
+          });
         }
 
         if (file instanceof TFolder) {
@@ -258,11 +610,105 @@ export default class VaultRecallPlugin extends Plugin {
                 void this.addFolderToQueue(file.path);
               });
           });
+
+          menu.addItem((item) => {
+            item
+              .setTitle('Extract cloze questions from folder')
+              .setIcon('text-cursor-input')
+              .onClick(() => {
+                void (async () => {
+                  const files = await this.fileService.getMarkdownFilesInFolder(file.path);
+                  await this.extractClozeQuestions(files);
+                })();
+              });
+          });
+        }
+      })
+    );
+  }
+
+  /**
+   * Register vault listeners that keep inline questions in sync with their notes
+   */
+  private registerVaultEvents(): void {
+    this.registerEvent(
+      this.app.vault.on('modify', (file) => {
+        if (file instanceof TFile && file.extension === 'md') {
+          this.queueInlineSync(file.path);
+        }
+      })
+    );
+
+    this.registerEvent(
+      this.app.vault.on('delete', (file) => {
+        if (file instanceof TFile && file.extension === 'md') {
+          this.queueInlineSync(file.path);
+        }
+      })
+    );
+
+    this.registerEvent(
+      this.app.vault.on('rename', (file, oldPath) => {
+        if (file instanceof TFile && file.extension === 'md') {
+          this.inlineQuestionService.renameNote(oldPath, file.path).catch((error) => {
+            console.error('Vault Recall: Failed to move inline questions', error);
+          });
         }
       })
     );
   }
 
+  /**
+   * Re-parses a note's inline questions once notes have stopped changing.
+   * Notes that change together are synced in one update of questions.json,
+   * and questions that can't be used are reported once for the batch.
+   */
+  private queueInlineSync(notePath: string): void {
+    this.inlineSyncPaths.add(notePath);
+    if (this.inlineSyncTimer !== null) {
+      window.clearTimeout(this.inlineSyncTimer);
+    }
+
+    this.inlineSyncTimer = window.setTimeout(() => {
+      const paths = Array.from(this.inlineSyncPaths);
+      this.inlineSyncTimer = null;
+      this.inlineSyncPaths.clear();
+      this.inlineQuestionService
+        .syncNotes(paths)
+        .then((result) => {
+          // Each error names its note and question, so the user can find it
+          if (result.errors.length > 0) {
+            new Notice(`Skipped invalid inline questions:\n${result.errors.slice(0, 3).join('\n')}`, 5000);
+          }
+        })
+        .catch((error) => {
+          console.error('Vault Recall: Failed to sync inline questions', error);
+        });
+    }, INLINE_SYNC_DELAY_MS);
+  }
+
+  /**
+   * Parses inline questions from every note in the vault
+   */
+  async syncAllInlineQuestions(): Promise<void> {
+    try {
+      const paths = this.app.vault.getMarkdownFiles().map((f) => f.path);
+      const result = await this.inlineQuestionService.syncNotes(paths);
+
+      const parts = [`${result.added} added`];
+      if (result.updated > 0) parts.push(`${result.updated} updated`);
+      if (result.removed > 0) parts.push(`${result.removed} removed`);
+      new Notice(`Inline questions: ${parts.join(', ')}`);
+
+      if (result.errors.length > 0) {
+        new Notice(`Skipped invalid inline questions:\n${result.errors.slice(0, 3).join('\n')}`, 5000);
+      }
+    } catch (error) {
+      console.error('Failed to sync inline questions', error);
+      new Notice('Failed to sync inline questions');
+    }
+  }
+
   /**
    * Add a single note to the quiz queue
    */
@@ -443,7 +889,43 @@ export default class VaultRecallPlugin extends Plugin {
     }
   }
 
+  /**
+   * Extracts cloze questions from the given notes into questions.json
+   */
+  async extractClozeQuestions(notePaths: string[]): Promise<void> {
+    if (notePaths.length === 0) {
+      new Notice('No Markdown files found in folder');
+      return;
+    }
+
+    try {
+      const result = await this.clozeService.scanNotes(notePaths);
+
+      if (result.added + result.updated + result.removed === 0) {
+        const message =
+          result.errors.length > 0
+            ? result.errors.slice(0, 3).join('\n')
+            : 'No new or changed clozes found';
+        new Notice(message, 5000);
+        return;
+      }
+
+      const parts = [`${result.added} added`];
+      if (result.updated > 0) parts.push(`${result.updated} updated`);
+      if (result.removed > 0) parts.push(`${result.removed} removed`);
+      new Notice(`Cloze questions: ${parts.join(', ')}`);
+    } catch (error) {
+      console.error('Failed to extract cloze questions', error);
+      new Notice('Failed to extract cloze questions');
+    }
+  }
+
   onunload() {
     console.debug('Unloading Vault Recall plugin');
+    if (this.inlineSyncTimer !== null) {
+      window.clearTimeout(this.inlineSyncTimer);
+      this.inlineSyncTimer = null;
+    }
+    this.inlineSyncPaths.clear();
   }
 }
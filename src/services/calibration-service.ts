@@ -0,0 +1,81 @@
+/**
+ * CalibrationService - Compares answer confidence to correctness over quiz history
+ */
+
+import type { FileService } from './file-service';
+import type { Confidence, Question } from '../types';
+import { CONFIDENCE_LEVELS } from '../constants';
+
+export interface ConfidenceStats {
+  confidence: Confidence;
+  answers: number;
+  correct: number;
+}
+
+export interface ConfidentlyWrongStats {
+  question: Question;
+  // Answers rated "sure" that were wrong since the last one rated "sure" that was right
+  count: number;
+  // Date of the latest of them
+  lastDate: string;
+}
+
+export interface CalibrationReport {
+  // One entry per confidence level, least sure first
+  levels: ConfidenceStats[];
+  // Questions answered wrong while sure and not answered right while sure since, most often first
+  confidentlyWrong: ConfidentlyWrongStats[];
+}
+
+export class CalibrationService {
+  constructor(private fileService: FileService) {}
+
+  /**
+   * Builds the calibration report from every confidence-rated answer in history.json.
+   * Answers to questions that no longer exist count toward the levels but are not listed.
+   * A question stops being listed as confidently wrong once it is answered right while sure.
+   * @param questions - The current questions, used to list confidently wrong ones
+   */
+  async getReport(questions: Question[]): Promise<CalibrationReport> {
+    const history = await this.fileService.readHistory();
+    const questionsById = new Map(questions.map((q) => [q.id, q]));
+
+    const levels = CONFIDENCE_LEVELS.map((confidence) => ({ confidence, answers: 0, correct: 0 }));
+    const wrongById = new Map<string, ConfidentlyWrongStats>();
+
+    // Oldest first, so a later right answer clears the misses before it
+    const attempts = [...history.attempts].sort((a, b) => a.date.localeCompare(b.date));
+    for (const attempt of attempts) {
+      for (const result of attempt.results) {
+        if (!result.confidence) continue;
+
+        const level = levels.find((l) => l.confidence === result.confidence);
+        if (!level) continue;
+        level.answers += 1;
+        if (result.correct) {
+          level.correct += 1;
+          if (result.confidence === 'sure') {
+            wrongById.delete(result.questionId);
+          }
+          continue;
+        }
+
+        const question = questionsById.get(result.questionId);
+        if (result.confidence !== 'sure' || !question) continue;
+
+        const stats = wrongById.get(question.id) ?? { question, count: 0, lastDate: attempt.date };
+        stats.count += 1;
+        if (attempt.date > stats.lastDate) {
+          stats.lastDate = attempt.date;
+        }
+        wrongById.set(question.id, stats);
+      }
+    }
+
+    const confidentlyWrong = Array.from(wrongById.values()).sort(
+      (a, b) => b.count - a.count || b.lastDate.localeCompare(a.lastDate)
+    );
+
+    return { levels, confidentlyWrong };
+  }
+}
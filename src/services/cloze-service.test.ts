@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { ClozeService } from './cloze-service';
+import type { FileService } from './file-service';
+import { BLANK_PLACEHOLDER, DEFAULT_CONFIG } from '../constants';
+
+const service = new ClozeService({} as FileService);
+const patterns = service.buildPatterns(DEFAULT_CONFIG.cloze);
+
+describe('ClozeService.extractClozes', () => {
+  it('blanks highlights and Anki clozes, dropping hints and list markup', () => {
+    const [question] = service.extractClozes(
+      'Bio.md',
+      '- The ==mitochondria== makes {{c1::ATP::energy}}.',
+      patterns
+    );
+    expect(question?.question).toBe(`The ${BLANK_PLACEHOLDER} makes ${BLANK_PLACEHOLDER}.`);
+    expect(question?.blanks).toEqual(['mitochondria', 'ATP']);
+    expect(question?.explanation).toBe('The mitochondria makes ATP.');
+  });
+
+  it('gives stable IDs and links each question to its heading', () => {
+    const content = '# Cells\n==Nucleus== holds DNA.\n\n## Energy\n==ATP== is energy.';
+    const first = service.extractClozes('Bio.md', content, patterns);
+    const second = service.extractClozes('Bio.md', content, patterns);
+    expect(first.map((q) => q.id)).toEqual(second.map((q) => q.id));
+    expect(first.map((q) => q.sourceHeading)).toEqual(['Cells', 'Energy']);
+  });
+
+  it('skips lines without clozes and code blocks', () => {
+    const content = 'Plain line\n```\n==not a cloze==\n```';
+    expect(service.extractClozes('Bio.md', content, patterns)).toEqual([]);
+  });
+
+  it('only uses the enabled syntaxes', () => {
+    const highlightsOnly = service.buildPatterns({ ...DEFAULT_CONFIG.cloze, ankiSyntax: false });
+    expect(service.extractClozes('Bio.md', '{{c1::ATP}}', highlightsOnly)).toEqual([]);
+  });
+
+  it('rejects an invalid custom pattern', () => {
+    expect(() => service.buildPatterns({ ...DEFAULT_CONFIG.cloze, customPattern: '(' })).toThrow();
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * ClozeService - Extracts fill-in-the-blank questions from cloze deletions in notes
+ *
+ * Works locally without the generation prompt: any line containing a cloze
+ * (==highlight==, {{c1::answer}}, or a custom pattern) becomes a fill_blank
+ * question with each cloze replaced by a blank.
+ */
+
+import type { FileService } from './file-service';
+import type { Config, FillBlankQuestion } from '../types';
+import { BLANK_PLACEHOLDER, CLOZE_ID_PREFIX } from '../constants';
+import { getCurrentTimestamp } from '../utils/helpers';
+import {
+  getScannableLines,
+  mergeNoteQuestions,
+  noteQuestionId,
+  parseHeading,
+} from '../utils/note-questions';
+import type { NoteMergeCounts } from '../utils/note-questions';
+
+export type ClozeOptions = Config['cloze'];
+
+export interface ClozeScanResult extends NoteMergeCounts {
+  errors: string[];
+}
+
+// A line with its clozes replaced by blanks
+interface ClozeLine {
+  question: string;
+  blanks: string[];
+  // The line with cloze markup removed, shown as the explanation
+  plain: string;
+}
+
+const HIGHLIGHT_PATTERN = '==([^=\\n]+?)==';
+// {{c1::answer}} or {{c1::answer::hint}}; the hint is dropped
+const ANKI_PATTERN = '\\{\\{c\\d+::((?:(?!::|\\}\\}).)+)(?:::(?:(?!\\}\\}).)*)?\\}\\}';
+// List bullets, task boxes, numbering, quotes and headings before the text
+const LINE_PREFIX_PATTERN = /^\s*(?:(?:[-*+]\s+(?:\[.\]\s+)?|\d+[.)]\s+|>\s*|#{1,6}\s+))*/;
+
+export class ClozeService {
+  constructor(private fileService: FileService) {}
+
+  /**
+   * Scans notes for clozes and merges the results into questions.json.
+   * Re-scanning a note updates its cloze questions in place, adds new ones,
+   * and removes those whose cloze no longer exists.
+   * @param notePaths - Paths of the notes to scan
+   */
+  async scanNotes(notePaths: string[]): Promise<ClozeScanResult> {
+    const config = await this.fileService.readConfig();
+    const result: ClozeScanResult = { added: 0, updated: 0, removed: 0, errors: [] };
+
+    let patterns: RegExp[];
+    try {
+      patterns = this.buildPatterns(config.cloze);
+    } catch {
+      result.errors.push(`Invalid custom cloze pattern: ${config.cloze.customPattern}`);
+      return result;
+    }
+
+    if (patterns.length === 0) {
+      result.errors.push('No cloze syntax is enabled');
+      return result;
+    }
+
+    // Merged in one update, so inline syncs and imports can't overwrite it
+    await this.fileService.queueQuestionsUpdate(async () => {
+      const questionsFile = await this.fileService.readQuestions();
+      let questions = questionsFile.questions;
+
+      for (const notePath of notePaths) {
+        const content = await this.fileService.readNote(notePath);
+        if (content === null) {
+          result.errors.push(`Note not found: ${notePath}`);
+          continue;
+        }
+
+        const extracted = this.extractClozes(notePath, content, patterns);
+        questions = mergeNoteQuestions(questions, notePath, 'cloze', extracted, result);
+      }
+
+      if (result.added + result.updated + result.removed > 0) {
+        questionsFile.questions = questions;
+        await this.fileService.writeQuestions(questionsFile);
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * Builds fill_blank questions for every cloze line in a note.
+   * IDs are derived from the note path and the line's position among cloze
+   * lines, so the same note always yields the same IDs.
+   * Each question links to the heading it sits under.
+   */
+  extractClozes(notePath: string, content: string, patterns: RegExp[]): FillBlankQuestion[] {
+    const questions: FillBlankQuestion[] = [];
+    const createdAt = getCurrentTimestamp();
+    let heading: string | null = null;
+
+    for (const line of getScannableLines(content)) {
+      heading = parseHeading(line) ?? heading;
+      const cloze = this.blankLine(line, patterns);
+      if (!cloze) continue;
+
+      const question: FillBlankQuestion = {
+        id: noteQuestionId(CLOZE_ID_PREFIX, notePath, questions.length),
+        sourceNote: notePath,
+        createdAt,
+        type: 'fill_blank',
+        difficulty: 'medium',
+        question: cloze.question,
+        blanks: cloze.blanks,
+        explanation: cloze.plain,
+        origin: 'cloze',
+      };
+      if (heading) {
+        question.sourceHeading = heading;
+      }
+      questions.push(question);
+    }
+
+    return questions;
+  }
+
+  /**
+   * Builds the enabled cloze patterns. Throws if the custom pattern is not a valid regex.
+   */
+  buildPatterns(options: ClozeOptions): RegExp[] {
+    const patterns: RegExp[] = [];
+    if (options.highlights) {
+      patterns.push(new RegExp(HIGHLIGHT_PATTERN, 'g'));
+    }
+    if (options.ankiSyntax) {
+      patterns.push(new RegExp(ANKI_PATTERN, 'g'));
+    }
+    if (options.customPattern.trim()) {
+      patterns.push(new RegExp(options.customPattern, 'g'));
+    }
+    return patterns;
+  }
+
+  /**
+   * Replaces each cloze in a line with a blank.
+   * When patterns overlap, the earliest match wins.
+   * Returns null if the line has no clozes.
+   */
+  private blankLine(line: string, patterns: RegExp[]): ClozeLine | null {
+    const text = line.replace(LINE_PREFIX_PATTERN, '').trim();
+    const blanks: string[] = [];
+    let question = '';
+    let plain = '';
+    let position = 0;
+
+    for (;;) {
+      let earliest: RegExpExecArray | null = null;
+      for (const pattern of patterns) {
+        pattern.lastIndex = position;
+        const match = pattern.exec(text);
+        if (match && match[0] && (!earliest || match.index < earliest.index)) {
+          earliest = match;
+        }
+      }
+      if (!earliest) break;
+
+      const answer = (earliest[1] ?? earliest[0]).trim();
+      const before = text.slice(position, earliest.index);
+      question += before;
+      plain += before;
+
+      if (answer && !answer.includes(BLANK_PLACEHOLDER)) {
+        question += BLANK_PLACEHOLDER;
+        blanks.push(answer);
+      } else {
+        question += answer;
+      }
+      plain += answer;
+      position = earliest.index + earliest[0].length;
+    }
+
+    if (blanks.length === 0) {
+      return null;
+    }
+
+    const rest = text.slice(position);
+    return { question: question + rest, blanks, plain: plain + rest };
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * DrillService - Finds weak questions from quiz history for targeted practice
+ */
+
+import type { FileService } from './file-service';
+import type { Question } from '../types';
+
+export interface WeakQuestionStats {
+  question: Question;
+  attempts: number;
+  errorRate: number;
+  averageTime: number;
+  score: number;
+}
+
+// How much answer speed contributes to the weakness score (error rate makes up the rest)
+const SLOWNESS_WEIGHT = 0.25;
+
+export class DrillService {
+  constructor(private fileService: FileService) {}
+
+  /**
+   * Ranks questions by weakness using their most recent results in history.json.
+   * Weakness combines error rate with how slow answers are compared to the
+   * median question. Questions that were never answered are skipped.
+   * @returns Stats sorted weakest first
+   */
+  async rankQuestions(questions: Question[]): Promise<WeakQuestionStats[]> {
+    const config = await this.fileService.readConfig();
+    const history = await this.fileService.readHistory();
+    const { recentAttempts } = config.drill;
+
+    // Collect results per question, newest last
+    const attempts = [...history.attempts].sort((a, b) => a.date.localeCompare(b.date));
+    const resultsById = new Map<string, { correct: boolean; timeSpent: number }[]>();
+    for (const attempt of attempts) {
+      for (const result of attempt.results) {
+        // Exam questions that timed out were never answered
+        if (result.timedOut) continue;
+        const results = resultsById.get(result.questionId) ?? [];
+        results.push(result);
+        resultsById.set(result.questionId, results);
+      }
+    }
+
+    const stats: WeakQuestionStats[] = [];
+    for (const question of questions) {
+      const recent = (resultsById.get(question.id) ?? []).slice(-recentAttempts);
+      if (recent.length === 0) continue;
+
+      const wrong = recent.filter((r) => !r.correct).length;
+      const totalTime = recent.reduce((sum, r) => sum + r.timeSpent, 0);
+      stats.push({
+        question,
+        attempts: recent.length,
+        errorRate: wrong / recent.length,
+        averageTime: totalTime / recent.length,
+        score: 0,
+      });
+    }
+
+    const medianTime = this.median(stats.map((s) => s.averageTime));
+    for (const s of stats) {
+      // 0 at or below the median time, 1 at twice the median or slower
+      const slowness =
+        medianTime > 0 ? Math.min(1, Math.max(0, s.averageTime / medianTime - 1)) : 0;
+      s.score = (1 - SLOWNESS_WEIGHT) * s.errorRate + SLOWNESS_WEIGHT * slowness;
+    }
+
+    return stats.sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Gets the weakest questions whose score meets the configured threshold.
+   * Limited to the configured drill size.
+   */
+  async getWeakQuestions(questions: Question[]): Promise<Question[]> {
+    const config = await this.fileService.readConfig();
+    const { weakThreshold, questionCount } = config.drill;
+    const ranked = await this.rankQuestions(questions);
+
+    return ranked
+      .filter((s) => s.score >= weakThreshold)
+      .slice(0, questionCount)
+      .map((s) => s.question);
+  }
+
+  private median(values: number[]): number {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    if (sorted.length % 2 === 0) {
+      return ((sorted[mid - 1] ?? 0) + (sorted[mid] ?? 0)) / 2;
+    }
+    return sorted[mid] ?? 0;
+  }
+}
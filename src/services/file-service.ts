@@ -12,6 +12,8 @@ import type {
   PendingFile,
   HistoryFile,
   ImportFile,
+  ReviewFile,
+  SessionFile,
 } from '../types';
 import {
   QUIZ_FOLDER,
@@ -20,19 +22,76 @@ import {
   PENDING_FILE,
   HISTORY_FILE,
   IMPORT_FILE,
+  REVIEW_FILE,
+  SESSION_FILE,
   CLAUDE_FILE,
+  BACKUP_FOLDER,
+  QUARANTINE_FILE,
+  BACKUP_COUNT,
+  BACKUP_INTERVAL_MS,
+  TEMP_FILE_SUFFIX,
   getQuizPath,
   DEFAULT_CONFIG,
   EMPTY_QUESTIONS_FILE,
   EMPTY_PENDING_FILE,
   EMPTY_HISTORY_FILE,
+  EMPTY_REVIEW_FILE,
 } from '../constants';
 import { CLAUDE_MD_TEMPLATE } from '../templates/claude-template';
+import { resolveAttachment } from '../utils/attachments';
+import { getCurrentTimestamp } from '../utils/helpers';
+import {
+  MIGRATIONS,
+  getCurrentVersion,
+  getStoredVersion,
+  migrateData,
+} from '../utils/migrations';
+import type { MigratedFile } from '../utils/migrations';
+
+export interface MigrationReport {
+  // Files upgraded to the current version, with where each original was backed up
+  migrated: { file: MigratedFile; from: number; to: number; backupPath: string }[];
+  // Files written by a newer version of the plugin, which are left untouched
+  newer: { file: MigratedFile; version: number }[];
+  // Files that couldn't be upgraded, which are left untouched for the session
+  failed: { file: MigratedFile; error: unknown }[];
+}
+
+export interface BackupInfo {
+  path: string;
+  // When the backup was taken, as an ISO timestamp
+  date: string;
+  // "v<N>" for an original kept before a migration, null for a regular backup
+  label: string | null;
+}
+
+// Called when a damaged data file has been moved aside
+export type CorruptFileHandler = (file: MigratedFile, quarantinePath: string) => void;
+
+// Called when a data file turns out to be from a newer version after startup, e.g. synced from another device
+export type NewerFileHandler = (file: MigratedFile, version: number) => void;
 
 export class FileService {
   private vault: Vault;
+  // Files from a newer plugin version: read as they are, never written
+  private newerFiles = new Set<MigratedFile>();
+  // Files whose upgrade failed at startup: never written this session
+  private failedFiles = new Set<MigratedFile>();
+  // Damaged files moved to backups/, by where they were moved: not written until restored or reset.
+  // Kept in backups/quarantine.json so this holds across restarts.
+  private quarantinedFiles = new Map<MigratedFile, string>();
+  // Latest write to each path, so writes to a file run one at a time
+  private writeQueue = new Map<string, Promise<void>>();
+  // When each file was last backed up this session, in milliseconds
+  private lastBackupTimes = new Map<MigratedFile, number>();
+  // Latest read-modify-write of questions.json, so updates run one at a time
+  private questionsUpdate: Promise<unknown> = Promise.resolve();
 
-  constructor(private app: App) {
+  constructor(
+    private app: App,
+    private onCorruptFile?: CorruptFileHandler,
+    private onNewerFile?: NewerFileHandler
+  ) {
     this.vault = app.vault;
   }
 
@@ -59,23 +118,174 @@ export class FileService {
     }
   }
 
+  /**
+   * Upgrades data files written by older versions of the plugin, backing up
+   * each original to .quiz/backups/ first. Files from a newer version are
+   * left alone and kept read-only for the session.
+   * Called once during plugin initialization, before anything reads the files.
+   */
+  async migrateDataFiles(): Promise<MigrationReport> {
+    const report: MigrationReport = { migrated: [], newer: [], failed: [] };
+
+    for (const file of Object.keys(MIGRATIONS) as MigratedFile[]) {
+      try {
+        await this.migrateDataFile(file, report);
+      } catch (error) {
+        // Leave the file as it is; the other files are still upgraded
+        console.error(`Vault Recall: Failed to upgrade ${file}`, error);
+        this.failedFiles.add(file);
+        report.failed.push({ file, error });
+      }
+    }
+
+    return report;
+  }
+
+  /**
+   * Loads the damaged files still waiting to be restored or reset from an
+   * earlier session, so saving to them stays held back after a restart.
+   * A file that has been put back by hand since is no longer held back.
+   * Called once during plugin initialization, before anything reads the files.
+   * @returns The damaged files still waiting
+   */
+  async loadQuarantinedFiles(): Promise<{ file: MigratedFile; quarantinePath: string }[]> {
+    const path = this.getQuarantineListPath();
+    if (!(await this.vault.adapter.exists(path))) {
+      return [];
+    }
+
+    let saved: unknown;
+    try {
+      saved = JSON.parse(await this.vault.adapter.read(path));
+    } catch (error) {
+      console.error('Vault Recall: Failed to read the list of damaged files', error);
+      return [];
+    }
+    if (typeof saved !== 'object' || saved === null) {
+      return [];
+    }
+
+    const entries = saved as Record<string, unknown>;
+    let changed = false;
+    for (const file of Object.keys(MIGRATIONS) as MigratedFile[]) {
+      const quarantinePath = entries[file];
+      if (typeof quarantinePath !== 'string') {
+        continue;
+      }
+      if (await this.recoverTempFile(getQuizPath(file))) {
+        changed = true;
+        continue;
+      }
+      this.quarantinedFiles.set(file, quarantinePath);
+    }
+    if (changed) {
+      await this.saveQuarantinedFiles();
+    }
+
+    return this.getQuarantinedFiles();
+  }
+
+  /**
+   * Lists the backups of a data file that can be restored, newest first.
+   * Quarantined copies of damaged files are left out.
+   */
+  async listBackups(file: MigratedFile): Promise<BackupInfo[]> {
+    const folder = getQuizPath(BACKUP_FOLDER);
+    if (!(await this.vault.adapter.exists(folder))) {
+      return [];
+    }
+
+    const base = file.replace(/\.json$/, '');
+    const pattern = /^([^/]+?)\.(?:([a-z0-9]+)\.)?(\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z)\.json$/;
+    const backups: BackupInfo[] = [];
+
+    for (const path of (await this.vault.adapter.list(folder)).files) {
+      const match = path.split('/').pop()?.match(pattern);
+      if (!match || match[1] !== base || match[2] === 'corrupt' || !match[3]) {
+        continue;
+      }
+      backups.push({
+        path,
+        date: match[3].replace(/T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z$/, 'T$1:$2:$3.$4Z'),
+        label: match[2] ?? null,
+      });
+    }
+
+    return backups.sort((a, b) => b.date.localeCompare(a.date));
+  }
+
+  /**
+   * Replaces a data file with one of its backups and resumes saving to it.
+   * @returns Whether the backup could be used; a damaged backup is left alone
+   */
+  async restoreBackup(file: MigratedFile, backupPath: string): Promise<boolean> {
+    const content = await this.vault.adapter.read(backupPath);
+    const data = this.parseDataFile(file, content);
+    if (data === null) {
+      return false;
+    }
+
+    const quarantinePath = this.quarantinedFiles.get(file);
+    this.quarantinedFiles.delete(file);
+    try {
+      await this.writeDataFile(file, data);
+    } catch (error) {
+      // Keep holding saves back, so the defaults can't replace the file
+      if (quarantinePath !== undefined) {
+        this.quarantinedFiles.set(file, quarantinePath);
+      }
+      throw error;
+    }
+    await this.saveQuarantinedFiles();
+    return true;
+  }
+
+  /**
+   * Gets the damaged files still waiting to be restored or reset.
+   */
+  getQuarantinedFiles(): { file: MigratedFile; quarantinePath: string }[] {
+    return Array.from(this.quarantinedFiles.entries()).map(([file, quarantinePath]) => ({
+      file,
+      quarantinePath,
+    }));
+  }
+
+  /**
+   * Resumes saving to a quarantined file without restoring a backup, so it
+   * starts again from empty.
+   */
+  async resetQuarantinedFile(file: MigratedFile): Promise<void> {
+    const quarantinePath = this.quarantinedFiles.get(file);
+    this.quarantinedFiles.delete(file);
+    try {
+      await this.saveQuarantinedFiles();
+    } catch (error) {
+      if (quarantinePath !== undefined) {
+        this.quarantinedFiles.set(file, quarantinePath);
+      }
+      throw error;
+    }
+  }
+
   /**
    * Reads config.json from .quiz/ folder.
    * Returns DEFAULT_CONFIG if file doesn't exist or is invalid.
    */
   async readConfig(): Promise<Config> {
-    const path = getQuizPath(CONFIG_FILE);
-    try {
-      const exists = await this.vault.adapter.exists(path);
-      if (!exists) {
-        return { ...DEFAULT_CONFIG };
-      }
-      const content = await this.vault.adapter.read(path);
-      const parsed = JSON.parse(content) as Config;
-      return parsed;
-    } catch {
+    const parsed = await this.readDataFile<Config>(CONFIG_FILE);
+    if (!parsed) {
       return { ...DEFAULT_CONFIG };
     }
+    // Fill in sections added after the file was first written
+    return {
+      ...parsed,
+      scheduling: { ...DEFAULT_CONFIG.scheduling, ...parsed.scheduling },
+      sampling: { ...DEFAULT_CONFIG.sampling, ...parsed.sampling },
+      grading: { ...DEFAULT_CONFIG.grading, ...parsed.grading },
+      drill: { ...DEFAULT_CONFIG.drill, ...parsed.drill },
+      keyboard: { ...DEFAULT_CONFIG.keyboard, ...parsed.keyboard },
+      cloze: { ...DEFAULT_CONFIG.cloze, ...parsed.cloze },
+    };
   }
 
   /**
@@ -83,9 +293,7 @@ export class FileService {
    * Used by settings tab and streak service.
    */
   async writeConfig(config: Config): Promise<void> {
-    const path = getQuizPath(CONFIG_FILE);
-    const content = JSON.stringify(config, null, 2);
-    await this.vault.adapter.write(path, content);
+    await this.writeDataFile(CONFIG_FILE, config);
   }
 
   /**
@@ -93,18 +301,7 @@ export class FileService {
    * Returns empty questions array if file doesn't exist.
    */
   async readQuestions(): Promise<QuestionsFile> {
-    const path = getQuizPath(QUESTIONS_FILE);
-    try {
-      const exists = await this.vault.adapter.exists(path);
-      if (!exists) {
-        return { ...EMPTY_QUESTIONS_FILE };
-      }
-      const content = await this.vault.adapter.read(path);
-      const parsed = JSON.parse(content) as QuestionsFile;
-      return parsed;
-    } catch {
-      return { ...EMPTY_QUESTIONS_FILE };
-    }
+    return (await this.readDataFile<QuestionsFile>(QUESTIONS_FILE)) ?? { ...EMPTY_QUESTIONS_FILE };
   }
 
   /**
@@ -112,9 +309,28 @@ export class FileService {
    * Used by import service to append new questions.
    */
   async writeQuestions(questions: QuestionsFile): Promise<void> {
-    const path = getQuizPath(QUESTIONS_FILE);
-    const content = JSON.stringify(questions, null, 2);
-    await this.vault.adapter.write(path, content);
+    await this.writeDataFile(QUESTIONS_FILE, questions);
+  }
+
+  /**
+   * Runs a read-modify-write of questions.json after earlier ones have
+   * finished, so inline syncs, cloze extraction and imports can't overwrite
+   * each other's changes. A failed update is reported to its caller but
+   * doesn't block the next one.
+   */
+  queueQuestionsUpdate<T>(task: () => Promise<T>): Promise<T> {
+    const next = this.questionsUpdate.catch(() => undefined).then(task);
+    this.questionsUpdate = next;
+    return next;
+  }
+
+  /**
+   * Gets when a data file was last changed, in milliseconds since the epoch.
+   * Returns null if the file doesn't exist.
+   */
+  async getModifiedTime(file: MigratedFile): Promise<number | null> {
+    const stat = await this.vault.adapter.stat(getQuizPath(file));
+    return stat?.mtime ?? null;
   }
 
   /**
@@ -122,18 +338,7 @@ export class FileService {
    * Returns empty notes array if file doesn't exist.
    */
   async readPending(): Promise<PendingFile> {
-    const path = getQuizPath(PENDING_FILE);
-    try {
-      const exists = await this.vault.adapter.exists(path);
-      if (!exists) {
-        return { ...EMPTY_PENDING_FILE };
-      }
-      const content = await this.vault.adapter.read(path);
-      const parsed = JSON.parse(content) as PendingFile;
-      return parsed;
-    } catch {
-      return { ...EMPTY_PENDING_FILE };
-    }
+    return (await this.readDataFile<PendingFile>(PENDING_FILE)) ?? { ...EMPTY_PENDING_FILE };
   }
 
   /**
@@ -141,9 +346,7 @@ export class FileService {
    * Used when adding/removing notes from queue.
    */
   async writePending(pending: PendingFile): Promise<void> {
-    const path = getQuizPath(PENDING_FILE);
-    const content = JSON.stringify(pending, null, 2);
-    await this.vault.adapter.write(path, content);
+    await this.writeDataFile(PENDING_FILE, pending);
   }
 
   /**
@@ -151,18 +354,7 @@ export class FileService {
    * Returns empty attempts array if file doesn't exist.
    */
   async readHistory(): Promise<HistoryFile> {
-    const path = getQuizPath(HISTORY_FILE);
-    try {
-      const exists = await this.vault.adapter.exists(path);
-      if (!exists) {
-        return { ...EMPTY_HISTORY_FILE };
-      }
-      const content = await this.vault.adapter.read(path);
-      const parsed = JSON.parse(content) as HistoryFile;
-      return parsed;
-    } catch {
-      return { ...EMPTY_HISTORY_FILE };
-    }
+    return (await this.readDataFile<HistoryFile>(HISTORY_FILE)) ?? { ...EMPTY_HISTORY_FILE };
   }
 
   /**
@@ -170,9 +362,23 @@ export class FileService {
    * Called after completing a quiz.
    */
   async writeHistory(history: HistoryFile): Promise<void> {
-    const path = getQuizPath(HISTORY_FILE);
-    const content = JSON.stringify(history, null, 2);
-    await this.vault.adapter.write(path, content);
+    await this.writeDataFile(HISTORY_FILE, history);
+  }
+
+  /**
+   * Reads review.json from .quiz/ folder.
+   * Returns empty review state if file doesn't exist.
+   */
+  async readReviews(): Promise<ReviewFile> {
+    return (await this.readDataFile<ReviewFile>(REVIEW_FILE)) ?? { ...EMPTY_REVIEW_FILE, reviews: {} };
+  }
+
+  /**
+   * Writes per-question review state to .quiz/review.json.
+   * Called after a quiz is recorded.
+   */
+  async writeReviews(reviews: ReviewFile): Promise<void> {
+    await this.writeDataFile(REVIEW_FILE, reviews);
   }
 
   /**
@@ -206,6 +412,68 @@ export class FileService {
     }
   }
 
+  /**
+   * Reads session.json from .quiz/ folder.
+   * Returns null if file doesn't exist (no paused quiz).
+   */
+  async readSession(): Promise<SessionFile | null> {
+    const path = getQuizPath(SESSION_FILE);
+    try {
+      const exists = await this.vault.adapter.exists(path);
+      if (!exists) {
+        return null;
+      }
+      const content = await this.vault.adapter.read(path);
+      const parsed = JSON.parse(content) as SessionFile;
+      return parsed;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Writes a paused quiz session to .quiz/session.json.
+   * Called after each answer so a quiz survives closing Obsidian.
+   */
+  async writeSession(session: SessionFile): Promise<void> {
+    const path = getQuizPath(SESSION_FILE);
+    const content = JSON.stringify(session, null, 2);
+    await this.queueWrite(path, () => this.writeAtomic(path, content));
+  }
+
+  /**
+   * Deletes .quiz/session.json once its quiz is finished or ended.
+   */
+  async clearSession(): Promise<void> {
+    const path = getQuizPath(SESSION_FILE);
+    const exists = await this.vault.adapter.exists(path);
+    if (exists) {
+      await this.vault.adapter.remove(path);
+    }
+  }
+
+  /**
+   * Finds the vault file an image reference points to.
+   * Returns null if the attachment does not exist.
+   * @param reference - Vault path or ![[embed]]
+   * @param sourcePath - Note the reference is resolved from
+   */
+  resolveAttachment(reference: string, sourcePath: string): TFile | null {
+    return resolveAttachment(this.app, reference, sourcePath);
+  }
+
+  /**
+   * Reads the content of a note in the vault.
+   * Returns null if the path is not a file.
+   */
+  async readNote(path: string): Promise<string | null> {
+    const file = this.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) {
+      return null;
+    }
+    return this.vault.cachedRead(file);
+  }
+
   /**
    * Recursively finds all .md files in a folder.
    * Used when adding a folder to the quiz queue.
@@ -232,4 +500,309 @@ export class FileService {
     processFolder(folder);
     return files;
   }
+
+  /**
+   * Upgrades one data file for migrateDataFiles, adding the outcome to the report.
+   */
+  private async migrateDataFile(file: MigratedFile, report: MigrationReport): Promise<void> {
+    const path = getQuizPath(file);
+    if (!(await this.recoverTempFile(path))) {
+      return;
+    }
+
+    const content = await this.vault.adapter.read(path);
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      // Unparseable files are handled when they are read
+      return;
+    }
+
+    const version = getStoredVersion(parsed);
+    const current = getCurrentVersion(file);
+    if (version > current) {
+      this.newerFiles.add(file);
+      report.newer.push({ file, version });
+      return;
+    }
+    if (version === current) {
+      return;
+    }
+
+    const backupPath = await this.backupFile(file, content, `v${version}`);
+    const { data } = migrateData(file, parsed);
+    await this.writeAtomic(path, JSON.stringify(data, null, 2));
+    report.migrated.push({ file, from: version, to: current, backupPath });
+  }
+
+  /**
+   * Reads and parses a versioned data file, upgrading older data in memory.
+   * Returns null if the file doesn't exist or can't be read, so callers fall
+   * back to defaults. A damaged file is quarantined first, and saving to it is
+   * held back until it is restored or reset, so the defaults never replace it.
+   */
+  private async readDataFile<T>(file: MigratedFile): Promise<T | null> {
+    const path = getQuizPath(file);
+    let content: string;
+    try {
+      // Let a save in progress finish, so the read sees it
+      await this.writeQueue.get(path)?.catch(() => undefined);
+      if (!(await this.recoverTempFile(path))) {
+        return null;
+      }
+      content = await this.vault.adapter.read(path);
+    } catch (error) {
+      console.error(`Vault Recall: Failed to read ${file}`, error);
+      return null;
+    }
+
+    let parsed: T | null;
+    try {
+      parsed = this.parseDataFile<T>(file, content);
+    } catch (error) {
+      // The file can't be upgraded, which doesn't make it damaged
+      console.error(`Vault Recall: Failed to upgrade ${file}`, error);
+      return null;
+    }
+    if (parsed === null) {
+      await this.quarantine(file, path);
+    }
+    return parsed;
+  }
+
+  /**
+   * Parses a versioned data file, upgrading older data in memory.
+   * Data from a newer version is returned as it is and the file is marked
+   * read-only, so it is never overwritten with an older schema. A file that
+   * becomes newer after startup is reported through onNewerFile.
+   * @returns The data, or null if the content is damaged
+   * @throws If the data can't be upgraded
+   */
+  private parseDataFile<T>(file: MigratedFile, content: string): T | null {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      return null;
+    }
+    if (typeof parsed !== 'object' || parsed === null) {
+      return null;
+    }
+
+    const version = getStoredVersion(parsed);
+    if (version > getCurrentVersion(file)) {
+      if (!this.newerFiles.has(file)) {
+        this.newerFiles.add(file);
+        this.onNewerFile?.(file, version);
+      }
+      return parsed as T;
+    }
+    this.newerFiles.delete(file);
+
+    const { data } = migrateData(file, parsed);
+    return this.isWellFormed(file, data) ? (data as T) : null;
+  }
+
+  /**
+   * Checks that a file's main list or map is present, so a damaged file isn't
+   * mistaken for an empty one.
+   */
+  private isWellFormed(file: MigratedFile, data: Record<string, unknown>): boolean {
+    switch (file) {
+      case QUESTIONS_FILE:
+        return Array.isArray(data.questions);
+      case PENDING_FILE:
+        return Array.isArray(data.notes);
+      case HISTORY_FILE:
+        return Array.isArray(data.attempts);
+      case REVIEW_FILE:
+        return typeof data.reviews === 'object' && data.reviews !== null && !Array.isArray(data.reviews);
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * Moves a damaged data file into .quiz/backups/ so nothing reads or
+   * overwrites it, holds back saving to it, and reports it so the user can
+   * restore a backup.
+   */
+  private async quarantine(file: MigratedFile, path: string): Promise<void> {
+    const quarantinePath = this.getBackupPath(file, 'corrupt');
+    try {
+      await this.ensureBackupFolder();
+      await this.vault.adapter.rename(path, quarantinePath);
+    } catch (error) {
+      // A read running alongside this one may have moved it already
+      console.error(`Vault Recall: Failed to quarantine ${file}`, error);
+      return;
+    }
+    this.quarantinedFiles.set(file, quarantinePath);
+    console.warn(`Vault Recall: ${file} is damaged and was moved to ${quarantinePath}`);
+    try {
+      await this.saveQuarantinedFiles();
+    } catch (error) {
+      // Saving stays held back for this session either way
+      console.error('Vault Recall: Failed to save the list of damaged files', error);
+    }
+    this.onCorruptFile?.(file, quarantinePath);
+  }
+
+  /**
+   * Saves a versioned data file, backing up the previous version first.
+   * Skipped for files from a newer version, files that couldn't be upgraded
+   * and quarantined files.
+   */
+  private async writeDataFile(file: MigratedFile, data: unknown): Promise<void> {
+    if (this.newerFiles.has(file)) {
+      console.warn(`Vault Recall: Not saving ${file}; it was written by a newer version of the plugin`);
+      return;
+    }
+    if (this.failedFiles.has(file)) {
+      console.warn(`Vault Recall: Not saving ${file}; it couldn't be upgraded to the current format`);
+      return;
+    }
+
+    const path = getQuizPath(file);
+    const content = JSON.stringify(data, null, 2);
+    await this.queueWrite(path, async () => {
+      // Checked once earlier writes are done, as one of them may have found the file damaged
+      if (this.quarantinedFiles.has(file)) {
+        console.warn(`Vault Recall: Not saving ${file} until a backup is restored or it is reset`);
+        return;
+      }
+      await this.rotateBackups(file, path);
+      await this.writeAtomic(path, content);
+    });
+  }
+
+  /**
+   * Runs a write after earlier writes to the same path have finished, so two
+   * saves can't interleave their temporary files. A failed write is reported
+   * to its caller but doesn't block the next one.
+   */
+  private queueWrite(path: string, task: () => Promise<void>): Promise<void> {
+    const previous = this.writeQueue.get(path) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    this.writeQueue.set(path, next);
+    return next;
+  }
+
+  /**
+   * Writes a file by saving a temporary copy next to it and renaming that into
+   * place, so a crash mid-write leaves the old file intact. If the crash lands
+   * after the old file is removed, the complete temporary copy is moved into
+   * place on the next read by recoverTempFile.
+   */
+  private async writeAtomic(path: string, content: string): Promise<void> {
+    const tempPath = `${path}${TEMP_FILE_SUFFIX}`;
+    await this.vault.adapter.write(tempPath, content);
+    if (await this.vault.adapter.exists(path)) {
+      await this.vault.adapter.remove(path);
+    }
+    await this.vault.adapter.rename(tempPath, path);
+  }
+
+  /**
+   * Finishes a write that was interrupted between removing the old file and
+   * renaming the new one into place.
+   * @returns Whether the file exists
+   */
+  private async recoverTempFile(path: string): Promise<boolean> {
+    if (await this.vault.adapter.exists(path)) {
+      return true;
+    }
+    const tempPath = `${path}${TEMP_FILE_SUFFIX}`;
+    if (!(await this.vault.adapter.exists(tempPath))) {
+      return false;
+    }
+    await this.vault.adapter.rename(tempPath, path);
+    return true;
+  }
+
+  /**
+   * Copies a data file into .quiz/backups/ before it is overwritten, at most
+   * once per BACKUP_INTERVAL_MS, and deletes all but the newest BACKUP_COUNT copies.
+   * Never runs for a quarantined file, so the backups taken before it was
+   * damaged are kept until it is restored or reset.
+   */
+  private async rotateBackups(file: MigratedFile, path: string): Promise<void> {
+    const lastBackup = this.lastBackupTimes.get(file);
+    if (lastBackup !== undefined && Date.now() - lastBackup < BACKUP_INTERVAL_MS) {
+      return;
+    }
+    if (!(await this.vault.adapter.exists(path))) {
+      return;
+    }
+
+    // Only the regular backups rotate; originals kept before a migration stay
+    const backups = (await this.listBackups(file)).filter((backup) => backup.label === null);
+    const newest = backups[0];
+    if (newest && Date.now() - new Date(newest.date).getTime() < BACKUP_INTERVAL_MS) {
+      this.lastBackupTimes.set(file, new Date(newest.date).getTime());
+      return;
+    }
+
+    await this.backupFile(file, await this.vault.adapter.read(path));
+    this.lastBackupTimes.set(file, Date.now());
+    for (const old of backups.slice(BACKUP_COUNT - 1)) {
+      await this.vault.adapter.remove(old.path);
+    }
+  }
+
+  /**
+   * Copies a file's content into .quiz/backups/.
+   * @returns Path of the backup
+   */
+  private async backupFile(file: MigratedFile, content: string, label?: string): Promise<string> {
+    await this.ensureBackupFolder();
+    const path = this.getBackupPath(file, label);
+    await this.vault.adapter.write(path, content);
+    return path;
+  }
+
+  /**
+   * Names a backup after its file, an optional label and the time,
+   * e.g. history.2026-10-19T08-30-00-000Z.json or history.v0.2026-10-19T08-30-00-000Z.json.
+   */
+  private getBackupPath(file: MigratedFile, label?: string): string {
+    const stamp = getCurrentTimestamp().replace(/[:.]/g, '-');
+    const name = [file.replace(/\.json$/, ''), label, stamp].filter(Boolean).join('.');
+    return `${getQuizPath(BACKUP_FOLDER)}/${name}.json`;
+  }
+
+  /**
+   * Saves which files are quarantined to backups/quarantine.json, or removes
+   * it when none are.
+   */
+  private async saveQuarantinedFiles(): Promise<void> {
+    const path = this.getQuarantineListPath();
+    const entries: Record<string, string> = {};
+    this.quarantinedFiles.forEach((quarantinePath, file) => {
+      entries[file] = quarantinePath;
+    });
+
+    await this.queueWrite(path, async () => {
+      if (Object.keys(entries).length === 0) {
+        if (await this.vault.adapter.exists(path)) {
+          await this.vault.adapter.remove(path);
+        }
+        return;
+      }
+      await this.ensureBackupFolder();
+      await this.writeAtomic(path, JSON.stringify(entries, null, 2));
+    });
+  }
+
+  private getQuarantineListPath(): string {
+    return `${getQuizPath(BACKUP_FOLDER)}/${QUARANTINE_FILE}`;
+  }
+
+  private async ensureBackupFolder(): Promise<void> {
+    const folder = getQuizPath(BACKUP_FOLDER);
+    if (!(await this.vault.adapter.exists(folder))) {
+      await this.vault.adapter.mkdir(folder);
+    }
+  }
 }
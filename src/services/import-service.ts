@@ -5,6 +5,7 @@
 import type { FileService } from './file-service';
 import type { ValidationService } from './validation-service';
 import type { Question } from '../types';
+import { isNoteOwned } from '../utils/note-questions';
 
 export interface ImportResult {
   success: boolean;
@@ -24,7 +25,15 @@ export class ImportService {
    * Clears import.json on successful import.
    * @returns ImportResult with success status, count, and any errors
    */
-  async importQuestions(): Promise<ImportResult> {
+  importQuestions(): Promise<ImportResult> {
+    // Runs as one update, so inline syncs and cloze extraction can't overwrite it
+    return this.fileService.queueQuestionsUpdate(() => this.applyImport());
+  }
+
+  /**
+   * Validates import.json against questions.json and appends its questions.
+   */
+  private async applyImport(): Promise<ImportResult> {
     // Read import file
     const importData = await this.fileService.readImport();
 
@@ -46,6 +55,13 @@ export class ImportService {
       };
     }
 
+    // Note-owned questions (cloze and inline) are managed from their notes,
+    // so imports may neither claim an origin nor reuse their IDs
+    const questionsFile = await this.fileService.readQuestions();
+    const noteOwnedIds = new Set(
+      questionsFile.questions.filter(isNoteOwned).map((q) => q.id)
+    );
+
     // Validate each question individually
     const errors: string[] = [];
     const validQuestions: Question[] = [];
@@ -54,10 +70,14 @@ export class ImportService {
       const question = importData.questions[i];
       const validation = this.validationService.validateQuestion(question);
 
-      if (validation.valid) {
-        validQuestions.push(question as Question);
-      } else {
+      if (!validation.valid) {
         errors.push(`Question ${i + 1}: ${validation.errors.join(', ')}`);
+      } else if (isNoteOwned(question as Question)) {
+        errors.push(`Question ${i + 1}: "origin" is reserved for questions written in notes`);
+      } else if (noteOwnedIds.has((question as Question).id)) {
+        errors.push(`Question ${i + 1}: id "${(question as Question).id}" belongs to a question written in a note`);
+      } else {
+        validQuestions.push(question as Question);
       }
     }
 
@@ -70,8 +90,7 @@ export class ImportService {
       };
     }
 
-    // Read existing questions and append new ones
-    const questionsFile = await this.fileService.readQuestions();
+    // Append new questions
     questionsFile.questions.push(...validQuestions);
 
     // Write updated questions file
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { InlineQuestionService } from './inline-question-service';
+import { ValidationService } from './validation-service';
+import type { FileService } from './file-service';
+
+const service = new InlineQuestionService({} as FileService, new ValidationService());
+
+describe('InlineQuestionService.parseNote', () => {
+  it('parses short answers with aliases and an explanation', () => {
+    const { questions, errors } = service.parseNote(
+      'Geo.md',
+      'Q:: Capital of France?\nA:: Paris | City of Light\nE:: Since the 10th century.'
+    );
+    expect(errors).toEqual([]);
+    expect(questions[0]).toMatchObject({
+      type: 'short_answer',
+      question: 'Capital of France?',
+      answer: 'Paris',
+      acceptedAnswers: ['City of Light'],
+      explanation: 'Since the 10th century.',
+      origin: 'inline',
+    });
+  });
+
+  it('parses a flashcard from the paragraph around a ? line', () => {
+    const { questions } = service.parseNote('Geo.md', 'Largest ocean\n?\nPacific\n\nAfter');
+    expect(questions[0]).toMatchObject({ type: 'flashcard', front: 'Largest ocean', back: 'Pacific' });
+  });
+
+  it('makes a callout with one checked and three unchecked options multiple choice', () => {
+    const { questions, errors } = service.parseNote(
+      'Math.md',
+      '> [!quiz] 2 + 2?\n> - [ ] 3\n> - [x] 4\n> - [ ] 5\n> - [ ] 22'
+    );
+    expect(errors).toEqual([]);
+    expect(questions[0]).toMatchObject({
+      type: 'multiple_choice',
+      correctAnswer: '4',
+      incorrectAnswers: ['3', '5', '22'],
+    });
+  });
+
+  it('makes a callout with any other number of options multi-select', () => {
+    const { questions, errors } = service.parseNote(
+      'Math.md',
+      '> [!quiz] 11 × 2?\n> - [x] 22\n> - [ ] 80\n> The product of 11 and 2.'
+    );
+    expect(errors).toEqual([]);
+    expect(questions[0]).toMatchObject({
+      type: 'multi_select',
+      correctAnswers: ['22'],
+      incorrectAnswers: ['80'],
+      explanation: 'The product of 11 and 2.',
+    });
+  });
+
+  it('reports invalid questions with the note and position', () => {
+    const { questions, errors } = service.parseNote('Math.md', '> [!quiz] Empty?\n> - [ ] no');
+    expect(questions).toEqual([]);
+    expect(errors[0]).toMatch(/^Math\.md, question 1: /);
+  });
+
+  it('derives IDs from the note and position, and records the heading', () => {
+    const content = '## Europe\nQ:: Capital of Spain?\nA:: Madrid';
+    const first = service.parseNote('Geo.md', content).questions;
+    expect(service.parseNote('Geo.md', content).questions[0]?.id).toBe(first[0]?.id);
+    expect(service.parseNote('Other.md', content).questions[0]?.id).not.toBe(first[0]?.id);
+    expect(first[0]?.sourceHeading).toBe('Europe');
+  });
+});
@@ -0,0 +1,296 @@
+/**
+ * InlineQuestionService - Parses questions written by hand inside notes
+ *
+ * Supported syntax:
+ *   Q:: question            A short-answer question. Alternate answers follow
+ *   A:: answer | alias      the answer separated by " | "; an optional E:: line
+ *   E:: explanation         adds an explanation.
+ *
+ *   front text              A flashcard: the paragraph before a line holding
+ *   ?                       only "?" is the front, the lines after it (up to
+ *   back text               the next blank line) are the back.
+ *
+ *   > [!quiz] question      A multiple choice question (one checked and three
+ *   > - [x] right           unchecked options) or a multi-select question (any
+ *   > - [ ] wrong           other mix). Other callout lines become the explanation.
+ *
+ * Inline questions are note-owned: they are regenerated whenever their note
+ * changes and are never replaced by imports.
+ */
+
+import type { FileService } from './file-service';
+import type { ValidationService } from './validation-service';
+import type { Question } from '../types';
+import { INLINE_ID_PREFIX, QUESTIONS_FILE } from '../constants';
+import { getCurrentTimestamp } from '../utils/helpers';
+import {
+  getScannableLines,
+  mergeNoteQuestions,
+  noteQuestionId,
+  parseHeading,
+} from '../utils/note-questions';
+import type { NoteMergeCounts } from '../utils/note-questions';
+
+export interface InlineSyncResult extends NoteMergeCounts {
+  errors: string[];
+}
+
+export interface InlineParseResult {
+  questions: Question[];
+  errors: string[];
+}
+
+const QUESTION_LINE = /^\s*Q::\s*(.+)$/;
+const ANSWER_LINE = /^\s*A::\s*(.+)$/;
+const EXPLANATION_LINE = /^\s*E::\s*(.+)$/;
+const SEPARATOR_LINE = /^\s*\?\s*$/;
+const CALLOUT_START = /^\s*>\s*\[!quiz\][+-]?\s*(.*)$/i;
+const CALLOUT_LINE = /^\s*>\s?(.*)$/;
+const CALLOUT_OPTION = /^[-*+]\s+\[([ xX])\]\s+(.+)$/;
+
+export class InlineQuestionService {
+  // Notes that had inline questions at the last sync, loaded from questions.json on first use.
+  // Kept with the file's modified time, so a restored or edited file is loaded again.
+  private notesWithQuestions: { notes: Set<string>; modified: number | null } | null = null;
+
+  constructor(
+    private fileService: FileService,
+    private validationService: ValidationService
+  ) {}
+
+  /**
+   * Re-parses notes and merges their inline questions into questions.json.
+   * Notes that no longer exist lose their inline questions.
+   * @param notePaths - Paths of the notes to sync
+   */
+  async syncNotes(notePaths: string[]): Promise<InlineSyncResult> {
+    const parsed = new Map<string, Question[]>();
+    const errors: string[] = [];
+
+    for (const notePath of notePaths) {
+      const content = await this.fileService.readNote(notePath);
+      const result = content === null ? { questions: [], errors: [] } : this.parseNote(notePath, content);
+      parsed.set(notePath, result.questions);
+      errors.push(...result.errors);
+    }
+
+    const counts = await this.applyNoteQuestions(parsed);
+    return { ...counts, errors };
+  }
+
+  /**
+   * Moves a renamed note's inline questions to its new path.
+   * IDs are derived from the path, so review history does not carry over.
+   */
+  async renameNote(oldPath: string, newPath: string): Promise<InlineSyncResult> {
+    const result = await this.syncNotes([newPath]);
+    const counts = await this.applyNoteQuestions(new Map([[oldPath, []]]));
+    return {
+      added: result.added + counts.added,
+      updated: result.updated + counts.updated,
+      removed: result.removed + counts.removed,
+      errors: result.errors,
+    };
+  }
+
+  /**
+   * Parses all inline questions in a note.
+   * Each question's ID is derived from the note path and its position among
+   * the note's inline questions, so re-parsing yields the same IDs.
+   */
+  parseNote(notePath: string, content: string): InlineParseResult {
+    const drafts = this.parseDrafts(getScannableLines(content));
+    const questions: Question[] = [];
+    const errors: string[] = [];
+    const createdAt = getCurrentTimestamp();
+
+    drafts.forEach((draft, position) => {
+      const question: Record<string, unknown> = {
+        id: noteQuestionId(INLINE_ID_PREFIX, notePath, position),
+        sourceNote: notePath,
+        createdAt,
+        difficulty: 'medium',
+        origin: 'inline',
+        ...draft,
+      };
+      if (question.explanation === undefined && question.type !== 'flashcard') {
+        question.explanation = `From ${notePath}`;
+      }
+
+      const validation = this.validationService.validateQuestion(question);
+      if (validation.valid) {
+        questions.push(question as unknown as Question);
+      } else {
+        errors.push(`${notePath}, question ${position + 1}: ${validation.errors.join(', ')}`);
+      }
+    });
+
+    return { questions, errors };
+  }
+
+  /**
+   * Splits scannable lines into question drafts holding only the authored fields
+   * and the heading each question sits under.
+   */
+  private parseDrafts(lines: string[]): Record<string, unknown>[] {
+    const drafts: Record<string, unknown>[] = [];
+    let paragraph: string[] = [];
+    let heading: string | null = null;
+    const addDraft = (draft: Record<string, unknown>) => {
+      drafts.push(heading ? { ...draft, sourceHeading: heading } : draft);
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i] ?? '';
+
+      const headingText = parseHeading(line);
+      if (headingText !== null) {
+        heading = headingText;
+        paragraph = [];
+        continue;
+      }
+
+      const callout = CALLOUT_START.exec(line);
+      if (callout) {
+        const body: string[] = [];
+        while (i + 1 < lines.length && CALLOUT_LINE.test(lines[i + 1] ?? '')) {
+          i++;
+          body.push(CALLOUT_LINE.exec(lines[i] ?? '')?.[1]?.trim() ?? '');
+        }
+        addDraft(this.parseCallout((callout[1] ?? '').trim(), body));
+        paragraph = [];
+        continue;
+      }
+
+      const question = QUESTION_LINE.exec(line);
+      const answer = ANSWER_LINE.exec(lines[i + 1] ?? '');
+      if (question && answer) {
+        i++;
+        const [main = '', ...aliases] = (answer[1] ?? '').split(' | ').map((a) => a.trim());
+        const draft: Record<string, unknown> = {
+          type: 'short_answer',
+          question: (question[1] ?? '').trim(),
+          answer: main,
+        };
+        if (aliases.length > 0) {
+          draft.acceptedAnswers = aliases;
+        }
+        const explanation = EXPLANATION_LINE.exec(lines[i + 1] ?? '');
+        if (explanation) {
+          i++;
+          draft.explanation = (explanation[1] ?? '').trim();
+        }
+        addDraft(draft);
+        paragraph = [];
+        continue;
+      }
+
+      if (SEPARATOR_LINE.test(line) && paragraph.length > 0) {
+        const back: string[] = [];
+        while (i + 1 < lines.length && (lines[i + 1] ?? '').trim() !== '') {
+          i++;
+          back.push((lines[i] ?? '').trim());
+        }
+        if (back.length > 0) {
+          addDraft({ type: 'flashcard', front: paragraph.join('\n'), back: back.join('\n') });
+        }
+        paragraph = [];
+        continue;
+      }
+
+      paragraph = line.trim() === '' ? [] : [...paragraph, line.trim()];
+    }
+
+    return drafts;
+  }
+
+  /**
+   * Builds a multiple choice or multi-select draft from a quiz callout.
+   */
+  private parseCallout(title: string, body: string[]): Record<string, unknown> {
+    const correct: string[] = [];
+    const incorrect: string[] = [];
+    const explanation: string[] = [];
+
+    for (const line of body) {
+      const option = CALLOUT_OPTION.exec(line);
+      if (option) {
+        (option[1] === ' ' ? incorrect : correct).push((option[2] ?? '').trim());
+      } else if (line) {
+        explanation.push(line);
+      }
+    }
+
+    // Multiple choice needs exactly 3 wrong options; any other count is asked as multi-select
+    const draft: Record<string, unknown> =
+      correct.length === 1 && incorrect.length === 3
+        ? { type: 'multiple_choice', question: title, correctAnswer: correct[0], incorrectAnswers: incorrect }
+        : { type: 'multi_select', question: title, correctAnswers: correct, incorrectAnswers: incorrect };
+    if (explanation.length > 0) {
+      draft.explanation = explanation.join(' ');
+    }
+    return draft;
+  }
+
+  /**
+   * Replaces the inline questions of each note with the given questions.
+   * Skips reading questions.json when none of the notes has or had inline questions.
+   * Runs after any other update of questions.json has finished.
+   */
+  private applyNoteQuestions(parsed: Map<string, Question[]>): Promise<NoteMergeCounts> {
+    return this.fileService.queueQuestionsUpdate(async () => {
+      const counts: NoteMergeCounts = { added: 0, updated: 0, removed: 0 };
+      const known = new Set(await this.getNotesWithQuestions());
+
+      const relevant = [...parsed.keys()].filter(
+        (path) => known.has(path) || (parsed.get(path) ?? []).length > 0
+      );
+      if (relevant.length === 0) {
+        return counts;
+      }
+
+      const questionsFile = await this.fileService.readQuestions();
+      let questions = questionsFile.questions;
+
+      for (const notePath of relevant) {
+        const noteQuestions = parsed.get(notePath) ?? [];
+        questions = mergeNoteQuestions(questions, notePath, 'inline', noteQuestions, counts);
+        if (noteQuestions.length > 0) {
+          known.add(notePath);
+        } else {
+          known.delete(notePath);
+        }
+      }
+
+      if (counts.added + counts.updated + counts.removed > 0) {
+        questionsFile.questions = questions;
+        await this.fileService.writeQuestions(questionsFile);
+      }
+
+      this.notesWithQuestions = {
+        notes: known,
+        modified: await this.fileService.getModifiedTime(QUESTIONS_FILE),
+      };
+      return counts;
+    });
+  }
+
+  /**
+   * Gets the notes that currently own inline questions.
+   * Reloads them when questions.json has changed since the last sync, e.g.
+   * after a backup was restored or the file was edited on another device.
+   */
+  private async getNotesWithQuestions(): Promise<Set<string>> {
+    const modified = await this.fileService.getModifiedTime(QUESTIONS_FILE);
+    if (!this.notesWithQuestions || this.notesWithQuestions.modified !== modified) {
+      const questionsFile = await this.fileService.readQuestions();
+      this.notesWithQuestions = {
+        notes: new Set(
+          questionsFile.questions.filter((q) => q.origin === 'inline').map((q) => q.sourceNote)
+        ),
+        modified,
+      };
+    }
+    return this.notesWithQuestions.notes;
+  }
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { QuizService } from './quiz-service';
+import type { FileService } from './file-service';
+import type { Question } from '../types';
+import { DEFAULT_CONFIG } from '../constants';
+
+const service = new QuizService({} as FileService, () => DEFAULT_CONFIG);
+
+function makeQuestions(note: string, count: number, extra: Partial<Question> = {}): Question[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `${note}-${i}`,
+    sourceNote: note,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    type: 'true_false',
+    difficulty: 'medium',
+    question: `Statement ${i}`,
+    correctAnswer: true,
+    explanation: '',
+    ...extra,
+  } as Question));
+}
+
+describe('QuizService.sampleQuestions', () => {
+  it('caps questions per note before sampling', () => {
+    const questions = [...makeQuestions('A.md', 5), ...makeQuestions('B.md', 1)];
+    const sampled = service.sampleQuestions(questions, undefined, { strategy: 'random', maxPerNote: 2 });
+    expect(sampled.filter((q) => q.sourceNote === 'A.md')).toHaveLength(2);
+    expect(sampled).toHaveLength(3);
+  });
+
+  it('limits to the requested count', () => {
+    const sampled = service.sampleQuestions(makeQuestions('A.md', 5), 3, { strategy: 'random', maxPerNote: 0 });
+    expect(sampled).toHaveLength(3);
+  });
+
+  it('interleaves so consecutive questions come from different notes where possible', () => {
+    const questions = [...makeQuestions('A.md', 3), ...makeQuestions('B.md', 3)];
+    const sampled = service.sampleQuestions(questions, undefined, { strategy: 'interleave', maxPerNote: 0 });
+    sampled.slice(1).forEach((q, i) => expect(q.sourceNote).not.toBe(sampled[i]?.sourceNote));
+  });
+
+  it('balances picks across difficulty levels', () => {
+    const questions = [
+      ...makeQuestions('A.md', 6, { difficulty: 'easy' }),
+      ...makeQuestions('B.md', 2, { difficulty: 'hard' }),
+    ];
+    const sampled = service.sampleQuestions(questions, 4, { strategy: 'balanced', maxPerNote: 0 });
+    expect(sampled.filter((q) => q.difficulty === 'hard')).toHaveLength(2);
+  });
+});
@@ -4,23 +4,57 @@
 
 import type { FileService } from './file-service';
 import type {
+  Confidence,
+  Config,
+  FlashcardGrade,
   Question,
   QuizSession,
   QuizAttempt,
   QuizResult,
   MultipleChoiceQuestion,
+  MultiSelectQuestion,
+  NumericQuestion,
+  ReviewRating,
+  SamplingOptions,
 } from '../types';
-import { generateId, getCurrentTimestamp, shuffledCopy } from '../utils/helpers';
+import {
+  VALID_DIFFICULTIES,
+  ADAPTIVE_START_LEVEL,
+  ADAPTIVE_STEP_UP_STREAK,
+  ADAPTIVE_STEP_DOWN_MISSES,
+  FLASHCARD_GRADES,
+} from '../constants';
+import { matchesAnswer, matchesOutput } from '../utils/grading';
+import { convertUnit, parseQuantity } from '../utils/units';
+import { capitalize, generateId, getCurrentTimestamp, shuffleArray, shuffledCopy } from '../utils/helpers';
 
 export class QuizService {
-  constructor(private fileService: FileService) {}
+  constructor(
+    private fileService: FileService,
+    private getConfig: () => Config
+  ) {}
 
   /**
    * Gets all questions from the questions file.
    */
   async getAllQuestions(): Promise<Question[]> {
     const questionsFile = await this.fileService.readQuestions();
-    return questionsFile.questions;
+    return questionsFile.questions.map((q) => this.normalizeQuestion(q));
+  }
+
+  /**
+   * Fills in fields a question file may omit.
+   * Flashcards use their front as the question text and have no explanation by default.
+   */
+  private normalizeQuestion(question: Question): Question {
+    if (question.type !== 'flashcard') {
+      return question;
+    }
+    return {
+      ...question,
+      question: question.question ?? question.front,
+      explanation: question.explanation ?? '',
+    };
   }
 
   /**
@@ -51,18 +85,20 @@ export class QuizService {
 
   /**
    * Starts a new quiz session with the given questions.
-   * Shuffles the question order.
+   * Picks and orders questions using the sampling strategy (random shuffle by default).
    * @param questions - Array of questions to include in the quiz
    * @param count - Optional limit on number of questions
+   * @param sampling - Optional sampling strategy and per-note cap
    */
-  startQuiz(questions: Question[], count?: number): QuizSession {
-    let quizQuestions = shuffledCopy(questions);
-
-    if (count && count > 0 && count < quizQuestions.length) {
-      quizQuestions = quizQuestions.slice(0, count);
-    }
+  startQuiz(questions: Question[], count?: number, sampling?: SamplingOptions): QuizSession {
+    const quizQuestions = this.sampleQuestions(
+      questions,
+      count,
+      sampling ?? { strategy: 'random', maxPerNote: 0 }
+    );
 
     return {
+      id: generateId(),
       questions: quizQuestions,
       currentIndex: 0,
       results: [],
@@ -70,6 +106,198 @@ export class QuizService {
     };
   }
 
+  /**
+   * Starts an adaptive quiz session.
+   * Instead of a fixed list, the next question is picked after each answer:
+   * a streak of correct answers steps up a difficulty level, repeated misses
+   * step back down.
+   * @param questions - Pool of questions to pick from
+   * @param count - Optional limit on number of questions
+   * @param sampling - Optional sampling applied to the pool (per-note cap, ordering)
+   */
+  startAdaptiveQuiz(questions: Question[], count?: number, sampling?: SamplingOptions): QuizSession {
+    const remaining = this.sampleQuestions(
+      questions,
+      undefined,
+      sampling ?? { strategy: 'random', maxPerNote: 0 }
+    );
+    const targetCount = count && count > 0 && count < remaining.length ? count : remaining.length;
+
+    const session: QuizSession = {
+      id: generateId(),
+      questions: [],
+      currentIndex: 0,
+      results: [],
+      startTime: Date.now(),
+      adaptive: {
+        level: ADAPTIVE_START_LEVEL,
+        peakLevel: ADAPTIVE_START_LEVEL,
+        correctStreak: 0,
+        missStreak: 0,
+        targetCount,
+        remaining,
+      },
+    };
+
+    this.pickNextAdaptiveQuestion(session);
+    return session;
+  }
+
+  /**
+   * Gets the total number of questions the session will ask.
+   * For adaptive sessions this is the target count, not the questions picked so far.
+   */
+  getTotalQuestions(session: QuizSession): number {
+    if (session.adaptive) {
+      return Math.min(
+        session.adaptive.targetCount,
+        session.questions.length + session.adaptive.remaining.length
+      );
+    }
+    return session.questions.length;
+  }
+
+  /**
+   * Updates the adaptive level from the latest answer.
+   */
+  private updateAdaptiveLevel(session: QuizSession, correct: boolean): void {
+    const adaptive = session.adaptive;
+    if (!adaptive) return;
+
+    const levelIndex = VALID_DIFFICULTIES.indexOf(adaptive.level);
+
+    if (correct) {
+      adaptive.correctStreak += 1;
+      adaptive.missStreak = 0;
+      if (adaptive.correctStreak >= ADAPTIVE_STEP_UP_STREAK && levelIndex < VALID_DIFFICULTIES.length - 1) {
+        adaptive.level = VALID_DIFFICULTIES[levelIndex + 1] ?? adaptive.level;
+        adaptive.correctStreak = 0;
+      }
+    } else {
+      adaptive.missStreak += 1;
+      adaptive.correctStreak = 0;
+      if (adaptive.missStreak >= ADAPTIVE_STEP_DOWN_MISSES && levelIndex > 0) {
+        adaptive.level = VALID_DIFFICULTIES[levelIndex - 1] ?? adaptive.level;
+        adaptive.missStreak = 0;
+      }
+    }
+
+    if (VALID_DIFFICULTIES.indexOf(adaptive.level) > VALID_DIFFICULTIES.indexOf(adaptive.peakLevel)) {
+      adaptive.peakLevel = adaptive.level;
+    }
+  }
+
+  /**
+   * Moves the next question into the session, preferring the current level
+   * and falling back to the nearest level that still has questions.
+   */
+  private pickNextAdaptiveQuestion(session: QuizSession): void {
+    const adaptive = session.adaptive;
+    if (!adaptive || session.questions.length >= adaptive.targetCount) return;
+
+    const target = VALID_DIFFICULTIES.indexOf(adaptive.level);
+    let bestIndex = -1;
+    let bestDistance = Infinity;
+
+    adaptive.remaining.forEach((q, index) => {
+      const distance = Math.abs(VALID_DIFFICULTIES.indexOf(q.difficulty) - target);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        bestIndex = index;
+      }
+    });
+
+    if (bestIndex === -1) return;
+
+    const [next] = adaptive.remaining.splice(bestIndex, 1);
+    if (next) {
+      session.questions.push(next);
+    }
+  }
+
+  /**
+   * Picks and orders questions for a session.
+   * - random: plain shuffle
+   * - interleave: rotates through source notes so consecutive questions differ
+   * - balanced: spreads picks evenly across question type and difficulty,
+   *   then interleaves by source note
+   * The per-note cap is applied before any strategy.
+   */
+  sampleQuestions(questions: Question[], count: number | undefined, sampling: SamplingOptions): Question[] {
+    let pool = shuffledCopy(questions);
+
+    if (sampling.maxPerNote > 0) {
+      const capped: Question[] = [];
+      for (const group of this.groupBy(pool, (q) => q.sourceNote)) {
+        capped.push(...group.slice(0, sampling.maxPerNote));
+      }
+      pool = shuffleArray(capped);
+    }
+
+    const limit = count && count > 0 && count < pool.length ? count : pool.length;
+
+    switch (sampling.strategy) {
+      case 'interleave':
+        return this.interleaveByNote(pool).slice(0, limit);
+
+      case 'balanced': {
+        const buckets = this.groupBy(pool, (q) => `${q.type}|${q.difficulty}`)
+          .map((bucket) => this.interleaveByNote(bucket));
+        const picked = this.roundRobin(buckets).slice(0, limit);
+        return this.interleaveByNote(picked);
+      }
+
+      default:
+        return pool.slice(0, limit);
+    }
+  }
+
+  /**
+   * Orders questions so consecutive ones come from different source notes where possible.
+   */
+  private interleaveByNote(questions: Question[]): Question[] {
+    return this.roundRobin(this.groupBy(questions, (q) => q.sourceNote));
+  }
+
+  /**
+   * Groups items by key, preserving first-seen order of groups and items.
+   */
+  private groupBy<T>(items: T[], keyOf: (item: T) => string): T[][] {
+    const groups = new Map<string, T[]>();
+    for (const item of items) {
+      const key = keyOf(item);
+      const group = groups.get(key) ?? [];
+      group.push(item);
+      groups.set(key, group);
+    }
+    return Array.from(groups.values());
+  }
+
+  /**
+   * Takes one item from each group in turn until all groups are exhausted.
+   * Groups are visited in random order, largest first, so big groups
+   * don't end up bunched at the tail.
+   */
+  private roundRobin<T>(groups: T[][]): T[] {
+    const queues = shuffledCopy(groups)
+      .sort((a, b) => b.length - a.length)
+      .map((group) => [...group]);
+    const result: T[] = [];
+    let remaining = queues.reduce((sum, q) => sum + q.length, 0);
+
+    while (remaining > 0) {
+      for (const queue of queues) {
+        const next = queue.shift();
+        if (next !== undefined) {
+          result.push(next);
+          remaining--;
+        }
+      }
+    }
+
+    return result;
+  }
+
   /**
    * Gets the current question in a quiz session.
    */
@@ -92,14 +320,16 @@ export class QuizService {
   /**
    * Submits an answer for the current question.
    * @param session - The current quiz session
-   * @param answer - The user's answer (string for MC/fill, boolean for T/F)
+   * @param answer - The user's answer (string for MC/short answer/numeric/code output/flashcard grade, string[] for multi-select/fill/ordering/matching/image occlusion, boolean for T/F)
    * @param timeSpent - Time spent on this question in milliseconds
+   * @param confidence - How sure the user was, if asked
    * @returns Whether the answer was correct
    */
   submitAnswer(
     session: QuizSession,
     answer: string | string[] | boolean,
-    timeSpent: number
+    timeSpent: number,
+    confidence?: Confidence
   ): boolean {
     const question = this.getCurrentQuestion(session);
     if (!question) {
@@ -112,12 +342,78 @@ export class QuizService {
       questionId: question.id,
       correct,
       timeSpent,
+      answer,
     };
 
+    if (confidence) {
+      result.confidence = confidence;
+    }
+
+    if (this.getConfig().grading.partialCredit) {
+      const credit = this.getPartialCredit(question, answer);
+      if (credit !== null) {
+        result.credit = credit;
+      }
+    }
+
+    const partsCorrect = this.getPartResults(question, answer);
+    if (partsCorrect !== null) {
+      result.partsCorrect = partsCorrect;
+    }
+
+    if (question.type === 'flashcard') {
+      const grade = this.getFlashcardRating(answer);
+      if (grade !== null) {
+        result.grade = grade;
+      }
+    }
+
+    this.recordResult(session, result);
+    return correct;
+  }
+
+  /**
+   * Records the current question as unanswered because its time ran out.
+   * Timed-out questions count as incorrect.
+   * @param timeSpent - Time spent on the question in milliseconds
+   */
+  submitTimeout(session: QuizSession, timeSpent: number): void {
+    const question = this.getCurrentQuestion(session);
+    if (!question) {
+      return;
+    }
+    this.recordResult(session, {
+      questionId: question.id,
+      correct: false,
+      timeSpent,
+      timedOut: true,
+    });
+  }
+
+  /**
+   * Ends a session whose time ran out: the current question and every
+   * question not yet asked are recorded as timed out.
+   * @param timeSpent - Time spent on the current question in milliseconds
+   */
+  timeOutRemaining(session: QuizSession, timeSpent: number): void {
+    let spent = timeSpent;
+    while (!this.isQuizComplete(session)) {
+      this.submitTimeout(session, spent);
+      spent = 0;
+    }
+  }
+
+  /**
+   * Adds a result to the session and moves on to the next question.
+   */
+  private recordResult(session: QuizSession, result: QuizResult): void {
     session.results.push(result);
     session.currentIndex += 1;
 
-    return correct;
+    if (session.adaptive) {
+      this.updateAdaptiveLevel(session, result.correct);
+      this.pickNextAdaptiveQuestion(session);
+    }
   }
 
   /**
@@ -128,22 +424,58 @@ export class QuizService {
       case 'multiple_choice':
         return answer === question.correctAnswer;
 
+      case 'multi_select': {
+        if (!Array.isArray(answer)) {
+          return false;
+        }
+        // Exactly the correct options, in any order
+        const selected = new Set(answer);
+        return (
+          selected.size === question.correctAnswers.length &&
+          question.correctAnswers.every((a) => selected.has(a))
+        );
+      }
+
       case 'true_false':
         return answer === question.correctAnswer;
 
-      case 'fill_blank': {
+      case 'ordering':
+        return (
+          Array.isArray(answer) &&
+          answer.length === question.items.length &&
+          question.items.every((item, i) => answer[i] === item)
+        );
+
+      case 'matching':
+      case 'fill_blank':
+      case 'image_occlusion': {
         if (!Array.isArray(answer)) {
           return false;
         }
-        // Check each blank, case-insensitive
-        if (answer.length !== question.blanks.length) {
-          return false;
-        }
-        return question.blanks.every(
-          (blank, i) =>
-            answer[i] &&
-            answer[i].toLowerCase().trim() === blank.toLowerCase().trim()
+        const parts = this.getPartResults(question, answer);
+        return parts !== null && parts.every(Boolean);
+      }
+
+      case 'short_answer':
+        return (
+          typeof answer === 'string' &&
+          matchesAnswer(
+            answer,
+            [question.answer, ...(question.acceptedAnswers ?? [])],
+            { fuzzy: this.getConfig().grading.fuzzyMatching }
+          )
         );
+
+      case 'numeric':
+        return typeof answer === 'string' && this.checkNumericAnswer(question, answer);
+
+      case 'code_output':
+        return typeof answer === 'string' && matchesOutput(answer, question.answer);
+
+      case 'flashcard': {
+        // Anything but "again" counts as recalled
+        const grade = this.getFlashcardRating(answer);
+        return grade !== null && grade > 1;
       }
 
       default:
@@ -151,6 +483,143 @@ export class QuizService {
     }
   }
 
+  /**
+   * Maps a flashcard self-grade to its review rating, or null if the answer is not a grade.
+   */
+  private getFlashcardRating(answer: string | string[] | boolean): ReviewRating | null {
+    if (typeof answer !== 'string') {
+      return null;
+    }
+    const index = FLASHCARD_GRADES.indexOf(answer as FlashcardGrade);
+    return index === -1 ? null : ((index + 1) as ReviewRating);
+  }
+
+  /**
+   * Checks a typed numeric answer, converting units and applying tolerance.
+   * An answer without a unit is assumed to be in the question's unit.
+   */
+  private checkNumericAnswer(question: NumericQuestion, input: string): boolean {
+    const quantity = parseQuantity(input);
+    if (!quantity) {
+      return false;
+    }
+
+    let value = quantity.value;
+    if (quantity.unit && question.unit) {
+      const converted = convertUnit(quantity.value, quantity.unit, question.unit);
+      if (converted === null) {
+        return false;
+      }
+      value = converted;
+    } else if (quantity.unit && !question.unit) {
+      // Unitless question answered with a unit: can't compare
+      return false;
+    }
+
+    const tolerance = question.tolerance ?? 0;
+    const allowed =
+      question.toleranceType === 'relative'
+        ? tolerance * Math.abs(question.answer)
+        : tolerance;
+    // Small epsilon absorbs floating point error from unit conversion
+    const epsilon = 1e-9 * Math.max(1, Math.abs(question.answer));
+    return Math.abs(value - question.answer) <= allowed + epsilon;
+  }
+
+  /**
+   * Gets the fraction of credit earned for question types that support partial credit.
+   * Returns null for types that are all-or-nothing.
+   */
+  getPartialCredit(question: Question, answer: string | string[] | boolean): number | null {
+    switch (question.type) {
+      case 'multi_select':
+        return Array.isArray(answer) ? this.getMultiSelectCredit(question, answer) : 0;
+      case 'matching': {
+        // One share per correctly matched pair
+        const parts = this.getPartResults(question, answer) ?? [];
+        return parts.filter(Boolean).length / question.pairs.length;
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Gets per-part correctness for multi-part questions (each blank, pair or region).
+   * Returns null for single-part question types.
+   */
+  getPartResults(question: Question, answer: string | string[] | boolean): boolean[] | null {
+    switch (question.type) {
+      case 'fill_blank': {
+        const inputs = Array.isArray(answer) ? answer : [];
+        const options = { fuzzy: this.getConfig().grading.fuzzyMatching };
+        return question.blanks.map((blank, i) => {
+          const input = inputs[i];
+          const accepted = [blank, ...(question.acceptedAnswers?.[i] ?? [])];
+          return input !== undefined && input.trim() !== '' && matchesAnswer(input, accepted, options);
+        });
+      }
+      case 'matching': {
+        // Answer lists the chosen right item for each left item, in pair order
+        const inputs = Array.isArray(answer) ? answer : [];
+        return question.pairs.map((pair, i) => inputs[i] === pair.right);
+      }
+      case 'image_occlusion': {
+        // Answer names each region, in region order
+        const inputs = Array.isArray(answer) ? answer : [];
+        const options = { fuzzy: this.getConfig().grading.fuzzyMatching };
+        return question.regions.map((region, i) => {
+          const input = inputs[i];
+          const accepted = [region.label, ...(region.acceptedAnswers ?? [])];
+          return input !== undefined && input.trim() !== '' && matchesAnswer(input, accepted, options);
+        });
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Whether the user may overrule the grade for this question type.
+   * Only typed answers, where the grader can miss a valid phrasing.
+   */
+  canOverride(question: Question): boolean {
+    return (
+      question.type === 'fill_blank' ||
+      question.type === 'short_answer' ||
+      question.type === 'image_occlusion'
+    );
+  }
+
+  /**
+   * Marks the most recent answer as correct after the user says they were
+   * actually right. Does not revisit adaptive difficulty decisions.
+   */
+  overrideLastResult(session: QuizSession): void {
+    const result = session.results[session.results.length - 1];
+    if (!result || result.correct) return;
+
+    result.correct = true;
+    result.overridden = true;
+    if (result.credit !== undefined) {
+      result.credit = 1;
+    }
+    if (result.partsCorrect) {
+      result.partsCorrect = result.partsCorrect.map(() => true);
+    }
+  }
+
+  /**
+   * Multi-select credit: each correct option picked earns a share, each
+   * incorrect option picked cancels one share. Never below zero.
+   */
+  private getMultiSelectCredit(question: MultiSelectQuestion, answer: string[]): number {
+    const selected = new Set(answer);
+    const hits = question.correctAnswers.filter((a) => selected.has(a)).length;
+    const misses = question.incorrectAnswers.filter((a) => selected.has(a)).length;
+    return Math.max(0, (hits - misses) / question.correctAnswers.length);
+  }
+
   /**
    * Checks if the quiz session is complete.
    */
@@ -163,10 +632,14 @@ export class QuizService {
    * Does not save to history (that's done by the caller).
    */
   finishQuiz(session: QuizSession): QuizAttempt {
-    const correctCount = session.results.filter((r) => r.correct).length;
+    // Partial credit counts toward the score when it was recorded
+    const earned = session.results.reduce(
+      (sum, r) => sum + (r.credit ?? (r.correct ? 1 : 0)),
+      0
+    );
     const totalQuestions = session.questions.length;
     const score =
-      totalQuestions > 0 ? Math.round((correctCount / totalQuestions) * 100) : 0;
+      totalQuestions > 0 ? Math.round((earned / totalQuestions) * 100) : 0;
 
     return {
       id: generateId(),
@@ -174,9 +647,102 @@ export class QuizService {
       questionIds: session.questions.map((q) => q.id),
       results: session.results,
       score,
+      ...(session.adaptive ? { difficultyReached: session.adaptive.peakLevel } : {}),
+      ...(session.exam ? { exam: session.exam } : {}),
+    };
+  }
+
+  /**
+   * Builds the attempt record for a quiz ended before its last question.
+   * Only answered questions are included and scored.
+   * Returns null if nothing was answered.
+   */
+  finishPartialQuiz(session: QuizSession): QuizAttempt | null {
+    if (session.results.length === 0) {
+      return null;
+    }
+
+    const attempt = this.finishQuiz(session);
+    const earned = session.results.reduce(
+      (sum, r) => sum + (r.credit ?? (r.correct ? 1 : 0)),
+      0
+    );
+    return {
+      ...attempt,
+      questionIds: session.results.map((r) => r.questionId),
+      score: Math.round((earned / session.results.length) * 100),
+      partial: true,
     };
   }
 
+  /**
+   * Gets the session's questions that were answered incorrectly, in the order asked.
+   */
+  getMissedQuestions(session: QuizSession): Question[] {
+    const missed = new Set(session.results.filter((r) => !r.correct).map((r) => r.questionId));
+    return session.questions.filter((q) => missed.has(q.id));
+  }
+
+  /**
+   * Formats a given answer for display when reviewing an attempt.
+   */
+  formatAnswer(question: Question, answer: string | string[] | boolean): string {
+    if (typeof answer === 'boolean') {
+      return answer ? 'True' : 'False';
+    }
+    if (!Array.isArray(answer)) {
+      // Flashcard answers are self-grades
+      return question.type === 'flashcard' ? capitalize(answer) : answer;
+    }
+
+    switch (question.type) {
+      case 'ordering':
+        return answer.join(' → ');
+      case 'matching':
+        return question.pairs.map((pair, i) => `${pair.left} → ${answer[i] ?? ''}`).join('; ');
+      default:
+        return answer.join(', ');
+    }
+  }
+
+  /**
+   * Formats the correct answer to a question for display.
+   */
+  formatCorrectAnswer(question: Question): string {
+    switch (question.type) {
+      case 'multiple_choice':
+        return question.correctAnswer;
+      case 'multi_select':
+        return question.correctAnswers.join(', ');
+      case 'true_false':
+        return question.correctAnswer ? 'True' : 'False';
+      case 'ordering':
+        return question.items.join(' → ');
+      case 'matching':
+        return question.pairs.map((pair) => `${pair.left} → ${pair.right}`).join('; ');
+      case 'fill_blank':
+        return question.blanks.join(', ');
+      case 'short_answer':
+      case 'code_output':
+        return question.answer;
+      case 'numeric': {
+        const value = question.unit ? `${question.answer} ${question.unit}` : String(question.answer);
+        if (!question.tolerance) {
+          return value;
+        }
+        return question.toleranceType === 'relative'
+          ? `${value} (±${question.tolerance * 100}%)`
+          : `${value} (±${question.tolerance})`;
+      }
+      case 'flashcard':
+        return question.back;
+      case 'image_occlusion':
+        return question.regions.map((region) => region.label).join(', ');
+      default:
+        return '';
+    }
+  }
+
   /**
    * Records a quiz attempt to history.
    */
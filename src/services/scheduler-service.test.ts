@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SchedulerService } from './scheduler-service';
+import type { FileService } from './file-service';
+import type { Config, QuizResult, ReviewFile, ReviewState } from '../types';
+import { DEFAULT_CONFIG } from '../constants';
+
+// Keeps review.json in memory
+function createScheduler(algorithm: Config['scheduling']['algorithm']) {
+  const reviewFile: ReviewFile = { version: 1, reviews: {} };
+  const config: Config = {
+    ...DEFAULT_CONFIG,
+    scheduling: { ...DEFAULT_CONFIG.scheduling, algorithm },
+  };
+  const fileService = {
+    readConfig: () => Promise.resolve(config),
+    readReviews: () => Promise.resolve(reviewFile),
+    writeReviews: () => Promise.resolve(),
+  } as unknown as FileService;
+  return { scheduler: new SchedulerService(fileService), reviewFile };
+}
+
+function result(correct: boolean, extra: Partial<QuizResult> = {}): QuizResult {
+  return { questionId: 'q1', correct, timeSpent: 1000, ...extra };
+}
+
+// Answers q1 once a day for each result, returning its state after each answer
+async function review(algorithm: Config['scheduling']['algorithm'], results: QuizResult[]): Promise<ReviewState[]> {
+  const { scheduler, reviewFile } = createScheduler(algorithm);
+  const states: ReviewState[] = [];
+  for (const r of results) {
+    await scheduler.recordResults([r]);
+    const state = reviewFile.reviews.q1;
+    if (state) {
+      states.push({ ...state });
+      // Come back when it is due
+      vi.setSystemTime(new Date(`${state.due}T12:00:00`));
+    }
+  }
+  return states;
+}
+
+describe('SchedulerService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T12:00:00'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('SM-2 steps through 1 and 6 days, then multiplies by the ease', async () => {
+    const states = await review('sm2', [result(true), result(true), result(true)]);
+    expect(states.map((s) => s.interval)).toEqual([1, 6, Math.round(6 * (states[2]?.ease ?? 0))]);
+    expect(states[0]?.due).toBe('2026-01-02');
+  });
+
+  it('SM-2 resets after a miss and never drops the ease below the minimum', async () => {
+    const states = await review('sm2', [result(true), result(true), ...Array.from({ length: 10 }, () => result(false))]);
+    const last = states[states.length - 1];
+    expect(last?.interval).toBe(1);
+    expect(last?.reps).toBe(0);
+    expect(last?.ease).toBe(1.3);
+    // Only forgetting a learned question is a lapse, not missing it again while relearning
+    expect(last?.lapses).toBe(1);
+  });
+
+  it('FSRS grows the interval on correct answers and drops to a day on a miss', async () => {
+    const states = await review('fsrs', [result(true), result(true), result(true), result(false)]);
+    const intervals = states.map((s) => s.interval);
+    expect(intervals[1]).toBeGreaterThan(intervals[0] ?? 0);
+    expect(intervals[2]).toBeGreaterThan(intervals[1] ?? 0);
+    expect(intervals[3]).toBe(1);
+    for (const state of states) {
+      expect(state.fsrsDifficulty).toBeGreaterThanOrEqual(1);
+      expect(state.fsrsDifficulty).toBeLessThanOrEqual(10);
+    }
+  });
+
+  it('Leitner moves up a box per correct answer and back to box 1 on a miss', async () => {
+    const states = await review('leitner', [result(true), result(true), result(false)]);
+    expect(states.map((s) => s.box)).toEqual([2, 3, 1]);
+    expect(states.map((s) => s.interval)).toEqual([2, 4, 1]);
+  });
+
+  it('uses flashcard grades directly and skips timed-out questions', async () => {
+    const { scheduler, reviewFile } = createScheduler('leitner');
+    await scheduler.recordResults([result(false, { timedOut: true })]);
+    expect(reviewFile.reviews.q1).toBeUndefined();
+
+    await scheduler.recordResults([result(true, { grade: 1 })]);
+    expect(reviewFile.reviews.q1?.box).toBe(1);
+  });
+});
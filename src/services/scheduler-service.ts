@@ -0,0 +1,274 @@
+/**
+ * SchedulerService - Spaced repetition scheduling for individual questions
+ *
+ * Keeps per-question review state in .quiz/review.json and decides which
+ * questions are due. Supports SM-2, FSRS (v4.5) and Leitner boxes so they
+ * can be compared.
+ */
+
+import type { FileService } from './file-service';
+import type {
+  Config,
+  Question,
+  QuizResult,
+  ReviewRating,
+  ReviewState,
+} from '../types';
+import {
+  SM2_INITIAL_EASE,
+  SM2_MIN_EASE,
+  FSRS_DEFAULT_WEIGHTS,
+} from '../constants';
+import { addDays, daysBetween, getTodayDate } from '../utils/helpers';
+
+// FSRS forgetting curve parameters
+const FSRS_DECAY = -0.5;
+const FSRS_FACTOR = 19 / 81;
+
+export class SchedulerService {
+  constructor(private fileService: FileService) {}
+
+  /**
+   * Updates review state for each answered question.
+   * Uses the algorithm selected in config.json.
+   * Questions that timed out in exam mode were never answered, so they are skipped.
+   */
+  async recordResults(results: QuizResult[]): Promise<void> {
+    const answered = results.filter((r) => !r.timedOut);
+    if (answered.length === 0) return;
+
+    const config = await this.fileService.readConfig();
+    const reviewFile = await this.fileService.readReviews();
+    const today = getTodayDate();
+
+    for (const result of answered) {
+      const previous = reviewFile.reviews[result.questionId] ?? this.createState(result.questionId, today);
+      const rating = this.ratingFromResult(result);
+      reviewFile.reviews[result.questionId] = this.schedule(
+        previous,
+        rating,
+        today,
+        config.scheduling
+      );
+    }
+
+    await this.fileService.writeReviews(reviewFile);
+  }
+
+  /**
+   * Returns the questions that are due today or earlier.
+   * Questions that have never been reviewed count as due.
+   */
+  async getDueQuestions(questions: Question[]): Promise<Question[]> {
+    const reviewFile = await this.fileService.readReviews();
+    const today = getTodayDate();
+    return questions.filter((q) => {
+      const state = reviewFile.reviews[q.id];
+      return !state || state.due <= today;
+    });
+  }
+
+  /**
+   * Counts how many questions sit in each Leitner box.
+   * Questions that have never been reviewed start in box 1.
+   * @returns Array where index 0 is box 1
+   */
+  async getBoxCounts(questions: Question[]): Promise<number[]> {
+    const config = await this.fileService.readConfig();
+    const reviewFile = await this.fileService.readReviews();
+    const boxCount = config.scheduling.leitnerCadence.length;
+    const counts = new Array<number>(boxCount).fill(0);
+
+    for (const q of questions) {
+      const box = Math.min(reviewFile.reviews[q.id]?.box ?? 1, boxCount);
+      counts[box - 1] = (counts[box - 1] ?? 0) + 1;
+    }
+
+    return counts;
+  }
+
+  /**
+   * Gets the review state for a single question, if it has been reviewed.
+   */
+  async getReviewState(questionId: string): Promise<ReviewState | null> {
+    const reviewFile = await this.fileService.readReviews();
+    return reviewFile.reviews[questionId] ?? null;
+  }
+
+  /**
+   * Maps a quiz result to a review rating.
+   * Self-graded results (flashcards) use their grade directly.
+   */
+  private ratingFromResult(result: QuizResult): ReviewRating {
+    if (result.grade !== undefined) {
+      return result.grade;
+    }
+    return result.correct ? 3 : 1;
+  }
+
+  /**
+   * Creates the initial state for a question that has never been reviewed.
+   */
+  private createState(questionId: string, today: string): ReviewState {
+    return {
+      questionId,
+      due: today,
+      lastReviewed: today,
+      interval: 0,
+      reps: 0,
+      lapses: 0,
+      ease: SM2_INITIAL_EASE,
+      stability: 0,
+      fsrsDifficulty: 0,
+      box: 1,
+    };
+  }
+
+  /**
+   * Applies a rating to a review state and returns the updated state.
+   */
+  private schedule(
+    state: ReviewState,
+    rating: ReviewRating,
+    today: string,
+    scheduling: Config['scheduling']
+  ): ReviewState {
+    let next: ReviewState;
+    switch (scheduling.algorithm) {
+      case 'fsrs':
+        next = this.scheduleFsrs(state, rating, today, scheduling.desiredRetention);
+        break;
+      case 'leitner':
+        next = this.scheduleLeitner(state, rating, scheduling.leitnerCadence);
+        break;
+      default:
+        next = this.scheduleSm2(state, rating);
+    }
+
+    return {
+      ...next,
+      // Box placement is tracked under every algorithm so switching to Leitner keeps history
+      box: this.nextBox(state.box ?? 1, rating, scheduling.leitnerCadence.length),
+      lapses: rating === 1 && state.reps > 0 ? state.lapses + 1 : state.lapses,
+      lastReviewed: today,
+      due: addDays(today, next.interval),
+    };
+  }
+
+  /**
+   * SM-2: ease factor grows or shrinks with answer quality.
+   */
+  private scheduleSm2(state: ReviewState, rating: ReviewRating): ReviewState {
+    // Map the 4-point rating onto SM-2's 0-5 quality scale
+    const quality = [0, 1, 3, 4, 5][rating] ?? 0;
+    const ease = Math.max(
+      SM2_MIN_EASE,
+      state.ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+    );
+
+    if (quality < 3) {
+      return { ...state, ease, reps: 0, interval: 1 };
+    }
+
+    const reps = state.reps + 1;
+    let interval: number;
+    if (reps === 1) {
+      interval = 1;
+    } else if (reps === 2) {
+      interval = 6;
+    } else {
+      interval = Math.round(state.interval * ease);
+    }
+
+    return { ...state, ease, reps, interval };
+  }
+
+  /**
+   * FSRS: tracks memory stability and difficulty, and picks the interval
+   * at which recall probability drops to the desired retention.
+   */
+  private scheduleFsrs(
+    state: ReviewState,
+    rating: ReviewRating,
+    today: string,
+    desiredRetention: number
+  ): ReviewState {
+    const w = FSRS_DEFAULT_WEIGHTS;
+    let stability: number;
+    let difficulty: number;
+
+    if (state.reps === 0 || state.stability <= 0) {
+      stability = w[rating - 1] ?? w[0];
+      difficulty = this.clampDifficulty(w[4] - (rating - 3) * w[5]);
+    } else {
+      const elapsed = Math.max(0, daysBetween(state.lastReviewed, today));
+      const retrievability = Math.pow(1 + FSRS_FACTOR * (elapsed / state.stability), FSRS_DECAY);
+      const d = state.fsrsDifficulty;
+
+      if (rating === 1) {
+        stability =
+          w[11] *
+          Math.pow(d, -w[12]) *
+          (Math.pow(state.stability + 1, w[13]) - 1) *
+          Math.exp(w[14] * (1 - retrievability));
+      } else {
+        const hardPenalty = rating === 2 ? w[15] : 1;
+        const easyBonus = rating === 4 ? w[16] : 1;
+        stability =
+          state.stability *
+          (Math.exp(w[8]) *
+            (11 - d) *
+            Math.pow(state.stability, -w[9]) *
+            (Math.exp(w[10] * (1 - retrievability)) - 1) *
+            hardPenalty *
+            easyBonus +
+            1);
+      }
+
+      // Difficulty moves with the rating, then reverts toward the initial "good" difficulty
+      const shifted = d - w[6] * (rating - 3);
+      difficulty = this.clampDifficulty(w[7] * w[4] + (1 - w[7]) * shifted);
+    }
+
+    const interval =
+      rating === 1
+        ? 1
+        : Math.max(
+            1,
+            Math.round(
+              (stability / FSRS_FACTOR) * (Math.pow(desiredRetention, 1 / FSRS_DECAY) - 1)
+            )
+          );
+
+    return {
+      ...state,
+      stability,
+      fsrsDifficulty: difficulty,
+      reps: rating === 1 ? state.reps : state.reps + 1,
+      interval,
+    };
+  }
+
+  /**
+   * Leitner: correct answers move the question up one box, misses send it
+   * back to box 1. Each box has a fixed review cadence.
+   */
+  private scheduleLeitner(state: ReviewState, rating: ReviewRating, cadence: number[]): ReviewState {
+    const box = this.nextBox(state.box ?? 1, rating, cadence.length);
+    return {
+      ...state,
+      box,
+      reps: rating === 1 ? 0 : state.reps + 1,
+      interval: cadence[box - 1] ?? 1,
+    };
+  }
+
+  private nextBox(box: number, rating: ReviewRating, boxCount: number): number {
+    if (rating === 1) return 1;
+    return Math.min(box + 1, boxCount);
+  }
+
+  private clampDifficulty(value: number): number {
+    return Math.min(10, Math.max(1, value));
+  }
+}
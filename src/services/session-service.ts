@@ -0,0 +1,82 @@
+/**
+ * SessionService - Saves in-progress quizzes so they can be paused and resumed
+ *
+ * Only one quiz is kept paused at a time, in session.json. Paused quizzes are
+ * never dropped silently: saving a different quiz hands the one it replaces
+ * back to the caller, which records it as a partial attempt.
+ */
+
+import type { FileService } from './file-service';
+import type { QuizSession, SessionFile } from '../types';
+import { getCurrentTimestamp } from '../utils/helpers';
+
+export class SessionService {
+  constructor(private fileService: FileService) {}
+
+  /**
+   * Gets the paused quiz, or null if there is none.
+   */
+  async getPausedSession(): Promise<SessionFile | null> {
+    const saved = await this.fileService.readSession();
+    if (!saved || !saved.session || !Array.isArray(saved.session.questions)) {
+      return null;
+    }
+    return saved;
+  }
+
+  /**
+   * Saves a quiz so it can be resumed later.
+   * @param session - The quiz in progress
+   * @param questionElapsed - Time already spent on the current question in milliseconds
+   * @returns The paused quiz this one replaced, if it was a different quiz
+   */
+  async saveSession(session: QuizSession, questionElapsed: number): Promise<SessionFile | null> {
+    const previous = await this.getPausedSession();
+
+    await this.fileService.writeSession({
+      version: 1,
+      savedAt: getCurrentTimestamp(),
+      session,
+      elapsed: Date.now() - session.startTime,
+      questionElapsed,
+    });
+
+    return previous && previous.session.id !== session.id ? previous : null;
+  }
+
+  /**
+   * Removes a quiz from session.json once it is finished or ended.
+   * Leaves a different paused quiz alone.
+   */
+  async clearSession(sessionId: string): Promise<void> {
+    const saved = await this.getPausedSession();
+    if (saved && saved.session.id === sessionId) {
+      await this.fileService.clearSession();
+    }
+  }
+
+  /**
+   * Rebuilds a runnable session from a paused quiz, so elapsed time carries on
+   * from where it stopped.
+   * Exams can't be paused, so an exam left open when Obsidian closed keeps its
+   * original start time and its clock counts the time it was closed.
+   */
+  restoreSession(saved: SessionFile): QuizSession {
+    if (saved.session.exam) {
+      return { ...saved.session };
+    }
+    return { ...saved.session, startTime: Date.now() - saved.elapsed };
+  }
+
+  /**
+   * Gets the time already spent on the current question of a paused quiz.
+   * For an exam this includes the time since it was saved.
+   */
+  getQuestionElapsed(saved: SessionFile): number {
+    if (saved.session.exam) {
+      const away = Date.now() - new Date(saved.savedAt).getTime();
+      return saved.questionElapsed + (away > 0 ? away : 0);
+    }
+    return saved.questionElapsed;
+  }
+}
@@ -2,14 +2,25 @@
  * ValidationService - Validates data structures before reading/writing
  */
 
+import type { FileService } from './file-service';
 import type { ValidationResult } from '../types';
 import {
   VALID_QUESTION_TYPES,
   VALID_DIFFICULTIES,
+  VALID_SCHEDULER_ALGORITHMS,
+  VALID_SAMPLING_STRATEGIES,
+  VALID_TOLERANCE_TYPES,
+  VALID_QUESTION_ORIGINS,
   BLANK_PLACEHOLDER,
 } from '../constants';
 
 export class ValidationService {
+  /**
+   * @param fileService - Used to check that referenced attachments exist.
+   * Without it, attachment references are only checked for shape.
+   */
+  constructor(private fileService?: FileService) {}
+
   /**
    * Validates a single question object.
    * Checks: required fields, correct types, valid enum values.
@@ -46,24 +57,77 @@ export class ValidationService {
       errors.push(`Invalid "difficulty": must be one of ${VALID_DIFFICULTIES.join(', ')}`);
     }
 
-    if (!q.question || typeof q.question !== 'string') {
+    // Flashcards carry their content in front/back, so question and explanation are optional
+    const isFlashcard = q.type === 'flashcard';
+
+    if (isFlashcard && q.question !== undefined) {
+      if (typeof q.question !== 'string') {
+        errors.push('Invalid "question" (must be string)');
+      }
+    } else if (!isFlashcard && (!q.question || typeof q.question !== 'string')) {
       errors.push('Missing or invalid "question" (must be string)');
     }
 
-    if (!q.explanation || typeof q.explanation !== 'string') {
+    if (isFlashcard && q.explanation !== undefined) {
+      if (typeof q.explanation !== 'string') {
+        errors.push('Invalid "explanation" (must be string)');
+      }
+    } else if (!isFlashcard && (!q.explanation || typeof q.explanation !== 'string')) {
       errors.push('Missing or invalid "explanation" (must be string)');
     }
 
+    if (
+      q.origin !== undefined &&
+      !VALID_QUESTION_ORIGINS.includes(q.origin as typeof VALID_QUESTION_ORIGINS[number])
+    ) {
+      errors.push(`Invalid "origin": must be one of ${VALID_QUESTION_ORIGINS.join(', ')}`);
+    }
+
+    if (
+      q.sourceHeading !== undefined &&
+      (typeof q.sourceHeading !== 'string' || !q.sourceHeading.trim())
+    ) {
+      errors.push('Invalid "sourceHeading" (must be a non-empty string)');
+    }
+
+    if (q.image !== undefined || q.type === 'image_occlusion') {
+      errors.push(...this.validateImage(q));
+    }
+
     // Validate type-specific fields
     if (q.type === 'multiple_choice') {
       const mcResult = this.validateMultipleChoice(q);
       errors.push(...mcResult.errors);
+    } else if (q.type === 'multi_select') {
+      const msResult = this.validateMultiSelect(q);
+      errors.push(...msResult.errors);
     } else if (q.type === 'fill_blank') {
       const fbResult = this.validateFillBlank(q);
       errors.push(...fbResult.errors);
     } else if (q.type === 'true_false') {
       const tfResult = this.validateTrueFalse(q);
       errors.push(...tfResult.errors);
+    } else if (q.type === 'ordering') {
+      const orderResult = this.validateOrdering(q);
+      errors.push(...orderResult.errors);
+    } else if (q.type === 'matching') {
+      const matchResult = this.validateMatching(q);
+      errors.push(...matchResult.errors);
+    } else if (q.type === 'short_answer') {
+      const saResult = this.validateShortAnswer(q);
+      errors.push(...saResult.errors);
+    } else if (q.type === 'numeric') {
+      const numResult = this.validateNumeric(q);
+      errors.push(...numResult.errors);
+    } else if (q.type === 'flashcard') {
+      const fcResult = this.validateFlashcard(q);
+      errors.push(...fcResult.errors);
+    } else if (q.type === 'image_occlusion') {
+      const ioResult = this.validateImageOcclusion(q);
+      errors.push(...ioResult.errors);
+    } else if (q.type === 'code_output') {
+      const coResult = this.validateCodeOutput(q);
+      errors.push(...coResult.errors);
     }
 
     return {
@@ -163,6 +227,121 @@ export class ValidationService {
       }
     }
 
+    // Scheduling object (optional in files written before it existed)
+    if (d.scheduling !== undefined) {
+      if (!d.scheduling || typeof d.scheduling !== 'object') {
+        errors.push('Invalid "scheduling" object');
+      } else {
+        const scheduling = d.scheduling as Record<string, unknown>;
+        if (
+          !VALID_SCHEDULER_ALGORITHMS.includes(
+            scheduling.algorithm as typeof VALID_SCHEDULER_ALGORITHMS[number]
+          )
+        ) {
+          errors.push(`scheduling.algorithm must be one of ${VALID_SCHEDULER_ALGORITHMS.join(', ')}`);
+        }
+        if (typeof scheduling.desiredRetention !== 'number') {
+          errors.push('scheduling.desiredRetention must be a number');
+        }
+        if (
+          !Array.isArray(scheduling.leitnerCadence) ||
+          scheduling.leitnerCadence.length === 0 ||
+          !scheduling.leitnerCadence.every((days) => typeof days === 'number' && days > 0)
+        ) {
+          errors.push('scheduling.leitnerCadence must be a non-empty array of positive numbers');
+        }
+      }
+    }
+
+    // Sampling object (optional in files written before it existed)
+    if (d.sampling !== undefined) {
+      if (!d.sampling || typeof d.sampling !== 'object') {
+        errors.push('Invalid "sampling" object');
+      } else {
+        const sampling = d.sampling as Record<string, unknown>;
+        if (
+          !VALID_SAMPLING_STRATEGIES.includes(
+            sampling.strategy as typeof VALID_SAMPLING_STRATEGIES[number]
+          )
+        ) {
+          errors.push(`sampling.strategy must be one of ${VALID_SAMPLING_STRATEGIES.join(', ')}`);
+        }
+        if (typeof sampling.maxPerNote !== 'number') {
+          errors.push('sampling.maxPerNote must be a number');
+        }
+      }
+    }
+
+    // Grading object (optional in files written before it existed)
+    if (d.grading !== undefined) {
+      if (!d.grading || typeof d.grading !== 'object') {
+        errors.push('Invalid "grading" object');
+      } else {
+        const grading = d.grading as Record<string, unknown>;
+        if (typeof grading.partialCredit !== 'boolean') {
+          errors.push('grading.partialCredit must be a boolean');
+        }
+        if (typeof grading.fuzzyMatching !== 'boolean') {
+          errors.push('grading.fuzzyMatching must be a boolean');
+        }
+        // Added later, so older files may not have it
+        if (grading.askConfidence !== undefined && typeof grading.askConfidence !== 'boolean') {
+          errors.push('grading.askConfidence must be a boolean');
+        }
+      }
+    }
+
+    // Keyboard object (optional in files written before it existed)
+    if (d.keyboard !== undefined) {
+      if (!d.keyboard || typeof d.keyboard !== 'object') {
+        errors.push('Invalid "keyboard" object');
+      } else {
+        const keyboard = d.keyboard as Record<string, unknown>;
+        if (typeof keyboard.shortcuts !== 'boolean') {
+          errors.push('keyboard.shortcuts must be a boolean');
+        }
+        if (typeof keyboard.showHints !== 'boolean') {
+          errors.push('keyboard.showHints must be a boolean');
+        }
+      }
+    }
+
+    // Cloze object (optional in files written before it existed)
+    if (d.cloze !== undefined) {
+      if (!d.cloze || typeof d.cloze !== 'object') {
+        errors.push('Invalid "cloze" object');
+      } else {
+        const cloze = d.cloze as Record<string, unknown>;
+        if (typeof cloze.highlights !== 'boolean') {
+          errors.push('cloze.highlights must be a boolean');
+        }
+        if (typeof cloze.ankiSyntax !== 'boolean') {
+          errors.push('cloze.ankiSyntax must be a boolean');
+        }
+        if (typeof cloze.customPattern !== 'string') {
+          errors.push('cloze.customPattern must be a string');
+        }
+      }
+    }
+
+    // Drill object (optional in files written before it existed)
+    if (d.drill !== undefined) {
+      if (!d.drill || typeof d.drill !== 'object') {
+        errors.push('Invalid "drill" object');
+      } else {
+        const drill = d.drill as Record<string, unknown>;
+        if (typeof drill.weakThreshold !== 'number') {
+          errors.push('drill.weakThreshold must be a number');
+        }
+        if (typeof drill.questionCount !== 'number') {
+          errors.push('drill.questionCount must be a number');
+        }
+        if (typeof drill.recentAttempts !== 'number') {
+          errors.push('drill.recentAttempts must be a number');
+        }
+      }
+    }
+
     return {
       valid: errors.length === 0,
       errors,
@@ -194,6 +373,40 @@ export class ValidationService {
     return { valid: errors.length === 0, errors };
   }
 
+  /**
+   * Validates a multi-select question.
+   * Checks: correctAnswers (non-empty array of strings), incorrectAnswers
+   * (non-empty array of strings), no option listed as both correct and incorrect.
+   */
+  private validateMultiSelect(question: Record<string, unknown>): ValidationResult {
+    const errors: string[] = [];
+
+    const checkOptions = (field: 'correctAnswers' | 'incorrectAnswers'): string[] | null => {
+      const value = question[field];
+      if (!Array.isArray(value) || value.length === 0) {
+        errors.push(`Multi-select: "${field}" must be a non-empty array`);
+        return null;
+      }
+      if (!value.every((a) => typeof a === 'string' && a !== '')) {
+        errors.push(`Multi-select: all ${field} must be non-empty strings`);
+        return null;
+      }
+      return value as string[];
+    };
+
+    const correct = checkOptions('correctAnswers');
+    const incorrect = checkOptions('incorrectAnswers');
+
+    if (correct && incorrect) {
+      const all = [...correct, ...incorrect];
+      if (new Set(all).size !== all.length) {
+        errors.push('Multi-select: options must be unique across correctAnswers and incorrectAnswers');
+      }
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
   /**
    * Validates a fill-in-the-blank question.
    * Checks: has blanks array, blanks count matches ___ in question text.
@@ -218,6 +431,18 @@ export class ValidationService {
           );
         }
       }
+
+      // Optional per-blank aliases
+      if (question.acceptedAnswers !== undefined) {
+        const accepted = question.acceptedAnswers;
+        if (!Array.isArray(accepted) || accepted.length !== question.blanks.length) {
+          errors.push('Fill blank: "acceptedAnswers" must have one array per blank');
+        } else if (
+          !accepted.every((alts) => Array.isArray(alts) && alts.every((a) => typeof a === 'string'))
+        ) {
+          errors.push('Fill blank: each "acceptedAnswers" entry must be an array of strings');
+        }
+      }
     }
 
     return { valid: errors.length === 0, errors };
@@ -236,4 +461,234 @@ export class ValidationService {
 
     return { valid: errors.length === 0, errors };
   }
+
+  /**
+   * Validates an ordering question.
+   * Checks: items is an array of at least 2 unique, non-empty strings.
+   */
+  private validateOrdering(question: Record<string, unknown>): ValidationResult {
+    const errors: string[] = [];
+
+    if (!Array.isArray(question.items)) {
+      errors.push('Ordering: missing "items" array');
+    } else if (question.items.length < 2) {
+      errors.push('Ordering: "items" must have at least 2 entries');
+    } else if (!question.items.every((item) => typeof item === 'string' && item !== '')) {
+      errors.push('Ordering: all items must be non-empty strings');
+    } else if (new Set(question.items).size !== question.items.length) {
+      errors.push('Ordering: items must be unique');
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  /**
+   * Validates a matching question.
+   * Checks: pairs is an array of at least 2 { left, right } string objects,
+   * with unique left items and unique right items so every left has exactly
+   * one right.
+   */
+  private validateMatching(question: Record<string, unknown>): ValidationResult {
+    const errors: string[] = [];
+
+    if (!Array.isArray(question.pairs)) {
+      errors.push('Matching: missing "pairs" array');
+      return { valid: false, errors };
+    }
+
+    if (question.pairs.length < 2) {
+      errors.push('Matching: "pairs" must have at least 2 entries');
+    }
+
+    const lefts: string[] = [];
+    const rights: string[] = [];
+    question.pairs.forEach((pair: unknown, index) => {
+      const p = (pair && typeof pair === 'object' ? pair : {}) as Record<string, unknown>;
+      if (typeof p.left !== 'string' || p.left === '' || typeof p.right !== 'string' || p.right === '') {
+        errors.push(`Matching: pair ${index + 1} must have non-empty "left" and "right" strings`);
+        return;
+      }
+      lefts.push(p.left);
+      rights.push(p.right);
+    });
+
+    if (new Set(lefts).size !== lefts.length) {
+      errors.push('Matching: left items must be unique');
+    }
+    if (new Set(rights).size !== rights.length) {
+      errors.push('Matching: right items must be unique');
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  /**
+   * Validates a short answer question.
+   * Checks: answer is a non-empty string, optional acceptedAnswers is an array of strings.
+   */
+  private validateShortAnswer(question: Record<string, unknown>): ValidationResult {
+    const errors: string[] = [];
+
+    if (!question.answer || typeof question.answer !== 'string') {
+      errors.push('Short answer: missing or invalid "answer" (must be string)');
+    }
+
+    if (question.acceptedAnswers !== undefined) {
+      if (
+        !Array.isArray(question.acceptedAnswers) ||
+        !question.acceptedAnswers.every((a) => typeof a === 'string' && a !== '')
+      ) {
+        errors.push('Short answer: "acceptedAnswers" must be an array of non-empty strings');
+      }
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  /**
+   * Validates a numeric question.
+   * Checks: answer is a finite number (not a string), optional tolerance is a
+   * non-negative number, toleranceType is valid, unit is a string.
+   */
+  private validateNumeric(question: Record<string, unknown>): ValidationResult {
+    const errors: string[] = [];
+
+    if (typeof question.answer !== 'number' || !Number.isFinite(question.answer)) {
+      errors.push('Numeric: "answer" must be a number, not a string');
+    }
+
+    if (
+      question.tolerance !== undefined &&
+      (typeof question.tolerance !== 'number' || question.tolerance < 0)
+    ) {
+      errors.push('Numeric: "tolerance" must be a non-negative number');
+    }
+
+    if (
+      question.toleranceType !== undefined &&
+      !VALID_TOLERANCE_TYPES.includes(question.toleranceType as typeof VALID_TOLERANCE_TYPES[number])
+    ) {
+      errors.push(`Numeric: "toleranceType" must be one of ${VALID_TOLERANCE_TYPES.join(', ')}`);
+    }
+
+    if (question.unit !== undefined && (typeof question.unit !== 'string' || question.unit === '')) {
+      errors.push('Numeric: "unit" must be a non-empty string');
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  /**
+   * Validates a flashcard question.
+   * Checks: front and back are non-empty strings.
+   */
+  private validateFlashcard(question: Record<string, unknown>): ValidationResult {
+    const errors: string[] = [];
+
+    if (!question.front || typeof question.front !== 'string') {
+      errors.push('Flashcard: missing or invalid "front" (must be string)');
+    }
+
+    if (!question.back || typeof question.back !== 'string') {
+      errors.push('Flashcard: missing or invalid "back" (must be string)');
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  /**
+   * Validates a code output question.
+   * Checks: non-empty code, language string, answer string, and optional
+   * incorrectAnswers that are unique and differ from the answer.
+   */
+  private validateCodeOutput(question: Record<string, unknown>): ValidationResult {
+    const errors: string[] = [];
+
+    if (!question.code || typeof question.code !== 'string') {
+      errors.push('Code output: missing or invalid "code" (must be string)');
+    }
+
+    if (typeof question.language !== 'string') {
+      errors.push('Code output: missing or invalid "language" (must be string)');
+    }
+
+    if (typeof question.answer !== 'string') {
+      errors.push('Code output: missing or invalid "answer" (must be string)');
+    }
+
+    if (question.incorrectAnswers !== undefined) {
+      if (
+        !Array.isArray(question.incorrectAnswers) ||
+        question.incorrectAnswers.length === 0 ||
+        !question.incorrectAnswers.every((a) => typeof a === 'string')
+      ) {
+        errors.push('Code output: "incorrectAnswers" must be a non-empty array of strings');
+      } else {
+        const all = [question.answer, ...question.incorrectAnswers];
+        if (new Set(all).size !== all.length) {
+          errors.push('Code output: "answer" and "incorrectAnswers" must all be different');
+        }
+      }
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  /**
+   * Checks a question's image reference.
+   * Checks: non-empty string that resolves to a file in the vault (when a file service is available).
+   */
+  private validateImage(question: Record<string, unknown>): string[] {
+    if (!question.image || typeof question.image !== 'string') {
+      return ['Missing or invalid "image" (must be a vault path or ![[embed]])'];
+    }
+
+    if (this.fileService && typeof question.sourceNote === 'string') {
+      const file = this.fileService.resolveAttachment(question.image, question.sourceNote);
+      if (!file) {
+        return [`Image not found in vault: ${question.image}`];
+      }
+    }
+
+    return [];
+  }
+
+  /**
+   * Validates an image occlusion question.
+   * Checks: at least one region, each with a label and a box inside the image
+   * given as fractions (0-1) of its width and height.
+   */
+  private validateImageOcclusion(question: Record<string, unknown>): ValidationResult {
+    const errors: string[] = [];
+
+    if (!Array.isArray(question.regions) || question.regions.length === 0) {
+      errors.push('Image occlusion: "regions" must be a non-empty array');
+      return { valid: false, errors };
+    }
+
+    question.regions.forEach((region: unknown, index) => {
+      const r = (region && typeof region === 'object' ? region : {}) as Record<string, unknown>;
+      const prefix = `Image occlusion: region ${index + 1}`;
+
+      if (!r.label || typeof r.label !== 'string') {
+        errors.push(`${prefix} must have a non-empty "label" string`);
+      }
+
+      const box = [r.x, r.y, r.width, r.height];
+      if (!box.every((v) => typeof v === 'number' && v >= 0 && v <= 1)) {
+        errors.push(`${prefix} needs "x", "y", "width" and "height" between 0 and 1`);
+      } else if ((r.x as number) + (r.width as number) > 1 + 1e-9 || (r.y as number) + (r.height as number) > 1 + 1e-9) {
+        errors.push(`${prefix} extends past the edge of the image`);
+      }
+
+      if (
+        r.acceptedAnswers !== undefined &&
+        (!Array.isArray(r.acceptedAnswers) || !r.acceptedAnswers.every((a) => typeof a === 'string'))
+      ) {
+        errors.push(`${prefix} "acceptedAnswers" must be an array of strings`);
+      }
+    });
+
+    return { valid: errors.length === 0, errors };
+  }
 }
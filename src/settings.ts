@@ -1,9 +1,26 @@
 /**
- * Vault Recall - Settings Tab (stub for Phase 2)
+ * Vault Recall - Settings Tab
  */
 
 import { App, PluginSettingTab, Setting } from 'obsidian';
 import type VaultRecallPlugin from './main';
+import type { QuestionType, SamplingStrategy, SchedulerAlgorithm } from './types';
+import { VALID_QUESTION_TYPES } from './constants';
+
+// Question types the generation prompt can ask for, and when a type only suits some notes
+const QUESTION_TYPE_OPTIONS: Record<QuestionType, { name: string; desc?: string }> = {
+  multiple_choice: { name: 'Multiple choice' },
+  multi_select: { name: 'Select all that apply' },
+  fill_blank: { name: 'Fill in the blank' },
+  true_false: { name: 'True or false' },
+  ordering: { name: 'Put in order' },
+  matching: { name: 'Match the pairs' },
+  short_answer: { name: 'Short answer' },
+  numeric: { name: 'Numeric answer', desc: 'Suits notes with numbers, units or formulas.' },
+  flashcard: { name: 'Flashcard' },
+  image_occlusion: { name: 'Name the regions', desc: 'Needs a diagram or image in the vault.' },
+  code_output: { name: 'Predict the output', desc: 'Suits notes with code snippets.' },
+};
 
 export class VaultRecallSettingTab extends PluginSettingTab {
   plugin: VaultRecallPlugin;
@@ -17,19 +34,304 @@ export class VaultRecallSettingTab extends PluginSettingTab {
     const { containerEl } = this;
     containerEl.empty();
 
-    // TODO: Phase 2 - Implement settings UI
-    // - Questions per note (number slider, 1-20)
-    // - Question types (multi-select checkboxes)
-    // - Difficulty (dropdown)
-    // - Include related concepts (toggle)
-    // - Custom prompt (text area)
-
     new Setting(containerEl)
       .setName('Quiz generation')
       .setHeading();
 
     new Setting(containerEl)
-      .setName('Coming soon')
-      .setDesc('Full configuration will be available in a future update.');
+      .setName('Question types')
+      .setDesc('Which types the generation prompt asks for. At least one stays on.');
+
+    for (const type of VALID_QUESTION_TYPES) {
+      const option = QUESTION_TYPE_OPTIONS[type];
+      const setting = new Setting(containerEl).setName(option.name);
+      if (option.desc) {
+        setting.setDesc(option.desc);
+      }
+      setting.addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.config.preferences.questionTypes.includes(type))
+          .onChange(async (value) => {
+            const selected = this.plugin.config.preferences.questionTypes;
+            if (!value && selected.length === 1 && selected[0] === type) {
+              toggle.setValue(true);
+              return;
+            }
+            await this.plugin.updateConfig((config) => {
+              const types = new Set(config.preferences.questionTypes);
+              if (value) {
+                types.add(type);
+              } else {
+                types.delete(type);
+              }
+              // Keep the order types are listed in
+              config.preferences.questionTypes = VALID_QUESTION_TYPES.filter((t) => types.has(t));
+            });
+          })
+      );
+    }
+
+    new Setting(containerEl)
+      .setName('Question sampling')
+      .setHeading();
+
+    const { sampling } = this.plugin.config;
+
+    new Setting(containerEl)
+      .setName('Default question mix')
+      .setDesc('How questions are picked and ordered. Can be changed per quiz.')
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('random', 'Random')
+          .addOption('interleave', 'Interleave notes')
+          .addOption('balanced', 'Balance types and difficulty')
+          .setValue(sampling.strategy)
+          .onChange(async (value) => {
+            await this.plugin.updateConfig((config) => {
+              config.sampling.strategy = value as SamplingStrategy;
+            });
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Max questions per note')
+      .setDesc('Caps how many questions a single note contributes to a quiz. 0 means no cap.')
+      .addSlider((slider) =>
+        slider
+          .setLimits(0, 20, 1)
+          .setValue(sampling.maxPerNote)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            await this.plugin.updateConfig((config) => {
+              config.sampling.maxPerNote = value;
+            });
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Grading')
+      .setHeading();
+
+    new Setting(containerEl)
+      .setName('Partial credit')
+      .setDesc('Award a share of the points for partly correct "select all that apply" and matching answers.')
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.config.grading.partialCredit)
+          .onChange(async (value) => {
+            await this.plugin.updateConfig((config) => {
+              config.grading.partialCredit = value;
+            });
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Forgive typos')
+      .setDesc('Accept typed answers with a small spelling mistake. Case, accents, punctuation and leading articles are always ignored.')
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.config.grading.fuzzyMatching)
+          .onChange(async (value) => {
+            await this.plugin.updateConfig((config) => {
+              config.grading.fuzzyMatching = value;
+            });
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Ask for confidence')
+      .setDesc('After each answer, rate how sure you are before seeing the result. Shows how well your confidence matches your accuracy.')
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.config.grading.askConfidence)
+          .onChange(async (value) => {
+            await this.plugin.updateConfig((config) => {
+              config.grading.askConfidence = value;
+            });
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Keyboard')
+      .setHeading();
+
+    new Setting(containerEl)
+      .setName('Keyboard shortcuts')
+      .setDesc('Pick options with the number keys, answer true or false with the t and f keys, press enter to submit and continue, and press escape to pause or end a quiz.')
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.config.keyboard.shortcuts)
+          .onChange(async (value) => {
+            await this.plugin.updateConfig((config) => {
+              config.keyboard.shortcuts = value;
+            });
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Show shortcut hints')
+      .setDesc('Show the key for each option next to it.')
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.config.keyboard.showHints)
+          .onChange(async (value) => {
+            await this.plugin.updateConfig((config) => {
+              config.keyboard.showHints = value;
+            });
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Review scheduling')
+      .setHeading();
+
+    const { scheduling } = this.plugin.config;
+
+    new Setting(containerEl)
+      .setName('Algorithm')
+      .setDesc('How the next review date is picked for each question.')
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('sm2', 'Classic ease factor')
+          .addOption('fsrs', 'Free spaced repetition scheduler')
+          .addOption('leitner', 'Leitner boxes')
+          .setValue(scheduling.algorithm)
+          .onChange(async (value) => {
+            await this.plugin.updateConfig((config) => {
+              config.scheduling.algorithm = value as SchedulerAlgorithm;
+            });
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Desired retention')
+      .setDesc('Target recall probability when a question comes due. Only applies to the free spaced repetition scheduler.')
+      .addSlider((slider) =>
+        slider
+          .setLimits(0.7, 0.97, 0.01)
+          .setValue(scheduling.desiredRetention)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            await this.plugin.updateConfig((config) => {
+              config.scheduling.desiredRetention = value;
+            });
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Leitner box cadence')
+      .setDesc('Days between reviews for each box, comma separated. The number of entries sets the number of boxes.')
+      .addText((text) =>
+        text
+          .setPlaceholder('1, 2, 4, 8, 16')
+          .setValue(scheduling.leitnerCadence.join(', '))
+          .onChange(async (value) => {
+            const cadence = value
+              .split(',')
+              .map((part) => Number(part.trim()))
+              .filter((days) => Number.isFinite(days) && days > 0);
+            if (cadence.length === 0) return;
+            await this.plugin.updateConfig((config) => {
+              config.scheduling.leitnerCadence = cadence;
+            });
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Cloze extraction')
+      .setHeading();
+
+    const { cloze } = this.plugin.config;
+
+    new Setting(containerEl)
+      .setName('Highlighted text')
+      .setDesc('Turn ==highlighted== text into blanks.')
+      .addToggle((toggle) =>
+        toggle.setValue(cloze.highlights).onChange(async (value) => {
+          await this.plugin.updateConfig((config) => {
+            config.cloze.highlights = value;
+          });
+        })
+      );
+
+    new Setting(containerEl)
+      .setName('Anki-style clozes')
+      .setDesc('Turn {{c1::answer}} deletions into blanks. Hints after a second :: are ignored.')
+      .addToggle((toggle) =>
+        toggle.setValue(cloze.ankiSyntax).onChange(async (value) => {
+          await this.plugin.updateConfig((config) => {
+            config.cloze.ankiSyntax = value;
+          });
+        })
+      );
+
+    new Setting(containerEl)
+      .setName('Custom pattern')
+      .setDesc('Regular expression for your own cloze syntax. The first capture group is the answer.')
+      .addText((text) =>
+        text
+          .setPlaceholder('::(.+?)::')
+          .setValue(cloze.customPattern)
+          .onChange(async (value) => {
+            try {
+              new RegExp(value);
+            } catch {
+              return;
+            }
+            await this.plugin.updateConfig((config) => {
+              config.cloze.customPattern = value;
+            });
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Weak-spot drill')
+      .setHeading();
+
+    const { drill } = this.plugin.config;
+
+    new Setting(containerEl)
+      .setName('Weakness threshold')
+      .setDesc('Questions scoring at or above this are drilled. The score mostly reflects recent error rate, with slow answers adding a little.')
+      .addSlider((slider) =>
+        slider
+          .setLimits(0.05, 1, 0.05)
+          .setValue(drill.weakThreshold)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            await this.plugin.updateConfig((config) => {
+              config.drill.weakThreshold = value;
+            });
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Questions per drill')
+      .addSlider((slider) =>
+        slider
+          .setLimits(1, 50, 1)
+          .setValue(drill.questionCount)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            await this.plugin.updateConfig((config) => {
+              config.drill.questionCount = value;
+            });
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Recent results considered')
+      .setDesc('How many of each question\'s latest answers count toward its score.')
+      .addSlider((slider) =>
+        slider
+          .setLimits(1, 20, 1)
+          .setValue(drill.recentAttempts)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            await this.plugin.updateConfig((config) => {
+              config.drill.recentAttempts = value;
+            });
+          })
+      );
   }
 }
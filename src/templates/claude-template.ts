@@ -19,7 +19,9 @@ vault/
 │   ├── config.json           # User settings and preferences
 │   ├── questions.json        # Generated questions cache
 │   ├── history.json          # Quiz attempt history (read-only for Claude)
+│   ├── review.json           # Spaced repetition state per question (read-only for Claude)
 │   ├── pending.json          # Notes awaiting question generation
+│   ├── session.json          # Paused quiz, if any (read-only for Claude)
 │   └── import.json           # Staging file for question imports
 └── [user notes]              # Markdown notes throughout the vault
 \`\`\`
@@ -40,10 +42,38 @@ User preferences for question generation.
   },
   "preferences": {
     "questionsPerNote": 5,
-    "questionTypes": ["multiple_choice", "fill_blank", "true_false"],
+    "questionTypes": ["multiple_choice", "fill_blank", "true_false", "short_answer"],
     "difficulty": "medium",
     "includeRelatedConcepts": true,
     "customPrompt": ""
+  },
+  "scheduling": {
+    "algorithm": "sm2",
+    "desiredRetention": 0.9,
+    "leitnerCadence": [1, 2, 4, 8, 16]
+  },
+  "sampling": {
+    "strategy": "interleave",
+    "maxPerNote": 0
+  },
+  "grading": {
+    "partialCredit": false,
+    "fuzzyMatching": true,
+    "askConfidence": false
+  },
+  "drill": {
+    "weakThreshold": 0.4,
+    "questionCount": 10,
+    "recentAttempts": 5
+  },
+  "keyboard": {
+    "shortcuts": true,
+    "showHints": true
+  },
+  "cloze": {
+    "highlights": true,
+    "ankiSyntax": true,
+    "customPattern": ""
   }
 }
 \`\`\`
@@ -154,6 +184,8 @@ The question cache. **This is the file you write to.**
 }
 \`\`\`
 
+Questions with an \`origin\` field are owned by their note: \`"cloze"\` questions come from cloze deletions and \`"inline"\` questions are written by hand in the note (\`Q::\`/\`A::\` lines, \`?\` flashcards, \`> [!quiz]\` callouts). **Do not edit or remove them**, never set \`origin\` yourself, and avoid generating duplicates of them; the plugin updates them from the note.
+
 ### history.json
 
 Quiz attempt history. **Read-only** — the plugin writes this.
@@ -176,6 +208,8 @@ Quiz attempt history. **Read-only** — the plugin writes this.
 }
 \`\`\`
 
+Attempts with \`"partial": true\` were ended early; only the answered questions are included. Attempts with an \`exam\` field were taken in timed exam mode, and results with \`"timedOut": true\` ran out of time before being answered.
+
 Use this to understand which questions the user struggles with when generating new questions.
 
 ---
@@ -198,6 +232,23 @@ Use this to understand which questions the user struggles with when generating n
 - The plugin's helper function will combine and randomize option order at runtime
 - Do not worry about answer positioning — just provide the content
 
+### multi_select
+
+\`\`\`json
+{
+  "type": "multi_select",
+  "question": "string",
+  "correctAnswers": ["string", "string"],
+  "incorrectAnswers": ["string", "string"],
+  "explanation": "string"
+}
+\`\`\`
+
+- "Select all that apply" — the user must pick every correct option and no incorrect ones
+- Provide at least 1 correct and at least 1 incorrect answer (4–6 options total works well)
+- Options must be unique across both arrays
+- The plugin shuffles all options together at runtime
+
 ### fill_blank
 
 \`\`\`json
@@ -212,6 +263,98 @@ Use this to understand which questions the user struggles with when generating n
 - Use \`___\` (three underscores) to indicate blanks
 - \`blanks\` array should match the number of \`___\` in the question
 - Order matters — first blank matches first answer
+- Optional \`acceptedAnswers\`: one array of aliases per blank, e.g. \`[["FIFO queue"], ["LIFO stack"]]\` (use \`[]\` for a blank with no aliases)
+- Grading already ignores case, accents, punctuation, leading articles ("the", "a") and small typos, and treats equivalent numbers (\`0.5\`, \`1/2\`) as equal — only list genuinely different phrasings
+
+### short_answer
+
+\`\`\`json
+{
+  "type": "short_answer",
+  "question": "string",
+  "answer": "breadth first search",
+  "acceptedAnswers": ["BFS"],
+  "explanation": "string"
+}
+\`\`\`
+
+- The user types a free-text answer
+- \`answer\` is the canonical answer shown after a miss
+- \`acceptedAnswers\` (optional) lists abbreviations and alternate phrasings that are also correct
+- Keep expected answers short (a word or phrase); the same forgiving grading as \`fill_blank\` applies
+
+### numeric
+
+\`\`\`json
+{
+  "type": "numeric",
+  "question": "string",
+  "answer": 1.5,
+  "tolerance": 0.05,
+  "toleranceType": "relative",
+  "unit": "GB",
+  "explanation": "string"
+}
+\`\`\`
+
+- \`answer\` must be a JSON number, not a string
+- \`tolerance\` (optional, default exact): allowed difference from \`answer\`
+- \`toleranceType\` (optional, default \`"absolute"\`): \`"absolute"\` compares the raw difference, \`"relative"\` treats tolerance as a fraction of the answer (0.05 = ±5%)
+- \`unit\` (optional): the user can answer in any compatible unit and it is converted (\`1536 MB\` matches \`1.5 GB\`)
+- Supported units: data size (B–PB, binary multiples), data rate (bps–Tbps), time (ns–days), length (nm–km, in/ft/mi), mass (mg–kg), frequency (Hz–GHz), energy (J, kJ), power (W–MW)
+
+### flashcard
+
+\`\`\`json
+{
+  "type": "flashcard",
+  "front": "string",
+  "back": "string"
+}
+\`\`\`
+
+- The user reveals \`back\` and grades their own recall as Again, Hard, Good or Easy
+- \`question\` and \`explanation\` are optional; \`front\` is used as the question text
+- Use for definitions and facts that are easier to recall than to type exactly
+
+### image_occlusion
+
+\`\`\`json
+{
+  "type": "image_occlusion",
+  "question": "Name the labelled parts of the heart",
+  "image": "![[heart-diagram.png]]",
+  "regions": [
+    { "x": 0.1, "y": 0.2, "width": 0.15, "height": 0.08, "label": "left atrium" },
+    { "x": 0.6, "y": 0.5, "width": 0.2, "height": 0.1, "label": "right ventricle", "acceptedAnswers": ["RV"] }
+  ],
+  "explanation": "string"
+}
+\`\`\`
+
+- \`image\` must be an attachment that exists in the vault, as a vault path or \`![[embed]]\` (resolved like an embed in \`sourceNote\`)
+- Each region is a box given as fractions (0-1) of the image's width and height, measured from the top-left corner
+- The user types a name for each masked region; names are graded forgivingly like \`fill_blank\`
+- Only use this when the note embeds a diagram whose labelled parts you can locate
+
+### code_output
+
+\`\`\`json
+{
+  "type": "code_output",
+  "question": "What does this print?",
+  "language": "python",
+  "code": "xs = [3, 1, 2]\\nprint(sorted(xs), xs)",
+  "answer": "[1, 2, 3] [3, 1, 2]",
+  "incorrectAnswers": ["[1, 2, 3] [1, 2, 3]", "None [1, 2, 3]", "[3, 1, 2] [3, 1, 2]"],
+  "explanation": "string"
+}
+\`\`\`
+
+- \`code\` is the snippet shown with syntax highlighting for \`language\` (escape newlines as \`\\n\` in JSON)
+- \`answer\` is exactly what the code outputs; whitespace is ignored when grading, but case and punctuation are not
+- \`incorrectAnswers\` (optional): plausible wrong outputs to choose from. Leave it out to have the user type the output
+- Keep snippets short (under ~15 lines) and deterministic: no randomness, timestamps or unordered set/dict printing
 
 ### true_false
 
@@ -224,6 +367,42 @@ Use this to understand which questions the user struggles with when generating n
 }
 \`\`\`
 
+### ordering
+
+\`\`\`json
+{
+  "type": "ordering",
+  "question": "string (e.g. Put the steps of the TCP handshake in order)",
+  "items": ["first step", "second step", "third step"],
+  "explanation": "string"
+}
+\`\`\`
+
+- List \`items\` in the **correct** order — the plugin shuffles them at runtime
+- Provide at least 2 items; 3–6 works best
+- Items must be unique
+- Great for processes, pipelines, timelines, and algorithm steps
+
+### matching
+
+\`\`\`json
+{
+  "type": "matching",
+  "question": "string (e.g. Match each port to its protocol)",
+  "pairs": [
+    { "left": "22", "right": "SSH" },
+    { "left": "53", "right": "DNS" },
+    { "left": "443", "right": "HTTPS" }
+  ],
+  "explanation": "string"
+}
+\`\`\`
+
+- Each pair is one correct match; the plugin shuffles the right-hand items at runtime
+- Provide at least 2 pairs; 3–6 works best
+- Left items must be unique, and right items must be unique
+- Great for terms ↔ definitions, ports ↔ protocols, functions ↔ complexities
+
 ---
 
 ## Your Task: Generating Questions
@@ -246,6 +425,9 @@ When asked to generate questions:
 - If \`customPrompt\` is set, follow those instructions
 - Generate unique \`id\` values using format \`q_\` + 6 random alphanumeric characters
 - Always include \`explanation\` — this is shown after the user answers
+- Set the optional \`sourceHeading\` field to the heading in \`sourceNote\` the question is about (the heading text only, without \`#\`); the results screen links to it
+- Any question may include an optional \`image\` field (vault path or \`![[embed]]\` of an existing attachment) that is shown with the question
+- Question text, options and explanations are rendered as Obsidian markdown: use \`$...$\` for math, backticks for code and \`[[wikilinks]]\` to point at related notes (links resolve relative to \`sourceNote\`). In \`fill_blank\` questions, never put \`___\` inside math or code
 - Set \`relatedConcepts\` to help with future question clustering
 
 ### ID Generation
@@ -261,7 +443,7 @@ Example: \`q_a7b3x9\`, \`q_m2k8p1\`
 
 ## What NOT To Do
 
-- **Do not modify** config.json, pending.json, or history.json
+- **Do not modify** config.json, pending.json, history.json, review.json, or session.json
 - **Do not delete** existing questions from questions.json
 - **Do not generate duplicate questions** for notes that already have questions (check existing sourceNote values)
 - **Do not hallucinate** — only generate questions based on actual note content
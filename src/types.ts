@@ -3,9 +3,29 @@
  */
 
 // Question types
-export type QuestionType = 'multiple_choice' | 'fill_blank' | 'true_false';
+export type QuestionType =
+  | 'multiple_choice'
+  | 'multi_select'
+  | 'fill_blank'
+  | 'true_false'
+  | 'ordering'
+  | 'matching'
+  | 'short_answer'
+  | 'numeric'
+  | 'flashcard'
+  | 'image_occlusion'
+  | 'code_output';
 export type Difficulty = 'easy' | 'medium' | 'hard';
 export type Priority = 'low' | 'normal' | 'high';
+export type SamplingStrategy = 'random' | 'interleave' | 'balanced';
+export type SchedulerAlgorithm = 'sm2' | 'fsrs' | 'leitner';
+// 1 = again, 2 = hard, 3 = good, 4 = easy
+export type ReviewRating = 1 | 2 | 3 | 4;
+export type FlashcardGrade = 'again' | 'hard' | 'good' | 'easy';
+// How sure the user was of an answer before seeing whether it was right
+export type Confidence = 'guess' | 'unsure' | 'sure';
+// Where a note-owned question came from; absent for questions imported from import.json
+export type QuestionOrigin = 'cloze' | 'inline';
 
 // Base question interface
 interface BaseQuestion {
@@ -17,6 +37,11 @@ interface BaseQuestion {
   question: string;
   explanation: string;
   relatedConcepts?: string[];
+  origin?: QuestionOrigin;
+  // Vault path or ![[embed]] of an image shown with the question
+  image?: string;
+  // Heading in sourceNote the question is about; review links jump to it
+  sourceHeading?: string;
 }
 
 // Multiple choice question
@@ -26,10 +51,27 @@ export interface MultipleChoiceQuestion extends BaseQuestion {
   incorrectAnswers: [string, string, string];
 }
 
+// Multi-select ("select all that apply") question
+export interface MultiSelectQuestion extends BaseQuestion {
+  type: 'multi_select';
+  correctAnswers: string[];
+  incorrectAnswers: string[];
+}
+
 // Fill in the blank question
 export interface FillBlankQuestion extends BaseQuestion {
   type: 'fill_blank';
   blanks: string[];
+  // Alternative accepted answers, one array per blank
+  acceptedAnswers?: string[][];
+}
+
+// Free-text short answer question
+export interface ShortAnswerQuestion extends BaseQuestion {
+  type: 'short_answer';
+  answer: string;
+  // Aliases also graded as correct (e.g. "BFS" for "breadth first search")
+  acceptedAnswers?: string[];
 }
 
 // True/false question
@@ -38,8 +80,95 @@ export interface TrueFalseQuestion extends BaseQuestion {
   correctAnswer: boolean;
 }
 
+// Ordering / sequence question
+export interface OrderingQuestion extends BaseQuestion {
+  type: 'ordering';
+  // Items in the correct order; shuffled when rendered
+  items: string[];
+}
+
+// A single left/right pair in a matching question
+export interface MatchingPair {
+  left: string;
+  right: string;
+}
+
+// Matching pairs question
+export interface MatchingQuestion extends BaseQuestion {
+  type: 'matching';
+  // Right items are shuffled when rendered
+  pairs: MatchingPair[];
+}
+
+// Numeric answer question
+export interface NumericQuestion extends BaseQuestion {
+  type: 'numeric';
+  answer: number;
+  // Allowed difference from answer (defaults to exact)
+  tolerance?: number;
+  // 'absolute' compares the raw difference, 'relative' a fraction of answer
+  toleranceType?: 'absolute' | 'relative';
+  // Unit of answer; inputs in compatible units are converted
+  unit?: string;
+}
+
+// Self-graded flashcard question
+// "question" and "explanation" are optional in files; front is used as the question
+export interface FlashcardQuestion extends BaseQuestion {
+  type: 'flashcard';
+  front: string;
+  back: string;
+}
+
+// A masked area of an image, as fractions (0-1) of the image's width and height
+export interface OcclusionRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  label: string;
+  acceptedAnswers?: string[];
+}
+
+// Image with masked regions the user must name
+export interface ImageOcclusionQuestion extends BaseQuestion {
+  type: 'image_occlusion';
+  image: string;
+  regions: OcclusionRegion[];
+}
+
+// Code-reading question: predict what a snippet outputs
+export interface CodeOutputQuestion extends BaseQuestion {
+  type: 'code_output';
+  code: string;
+  // Language for syntax highlighting, e.g. "python"
+  language: string;
+  // The expected output
+  answer: string;
+  // Wrong outputs to choose from; without them the output is typed
+  incorrectAnswers?: string[];
+}
+
 // Union type for all questions
-export type Question = MultipleChoiceQuestion | FillBlankQuestion | TrueFalseQuestion;
+export type Question =
+  | MultipleChoiceQuestion
+  | MultiSelectQuestion
+  | FillBlankQuestion
+  | TrueFalseQuestion
+  | OrderingQuestion
+  | MatchingQuestion
+  | ShortAnswerQuestion
+  | NumericQuestion
+  | FlashcardQuestion
+  | ImageOcclusionQuestion
+  | CodeOutputQuestion;
+
+// How questions are picked and ordered for a session
+export interface SamplingOptions {
+  strategy: SamplingStrategy;
+  // Maximum questions from a single note (0 = no cap)
+  maxPerNote: number;
+}
 
 // Config file schema
 export interface Config {
@@ -56,6 +185,42 @@ export interface Config {
     includeRelatedConcepts: boolean;
     customPrompt: string;
   };
+  scheduling: {
+    algorithm: SchedulerAlgorithm;
+    desiredRetention: number;
+    // Review interval in days for each Leitner box (box 1 first)
+    leitnerCadence: number[];
+  };
+  sampling: SamplingOptions;
+  grading: {
+    // Award fractional credit for partly correct multi-select and matching answers
+    partialCredit: boolean;
+    // Tolerate small typos in typed answers
+    fuzzyMatching: boolean;
+    // Ask how sure the user is after each answer, before showing the result
+    askConfidence: boolean;
+  };
+  drill: {
+    // Weakness score (0-1) at or above which a question counts as weak
+    weakThreshold: number;
+    questionCount: number;
+    // How many of each question's latest results are considered
+    recentAttempts: number;
+  };
+  keyboard: {
+    // Number keys, T/F and Enter drive the quiz
+    shortcuts: boolean;
+    // Show the shortcut key next to each option
+    showHints: boolean;
+  };
+  cloze: {
+    // Treat ==highlighted== text as cloze deletions
+    highlights: boolean;
+    // Treat Anki-style {{c1::answer}} as cloze deletions
+    ankiSyntax: boolean;
+    // Extra regular expression whose first capture group is the answer ('' to disable)
+    customPattern: string;
+  };
 }
 
 // Pending note entry
@@ -82,6 +247,20 @@ export interface QuizResult {
   questionId: string;
   correct: boolean;
   timeSpent: number;
+  // Fraction of credit earned (0-1) when partial credit applies
+  credit?: number;
+  // Per-part correctness for multi-part answers (blanks, pairs)
+  partsCorrect?: boolean[];
+  // Set when the user marked an answer graded wrong as actually right
+  overridden?: boolean;
+  // Self-graded recall for flashcards
+  grade?: ReviewRating;
+  // The answer as given, shown when reviewing the attempt
+  answer?: string | string[] | boolean;
+  // Set when time ran out in exam mode before the question was answered
+  timedOut?: boolean;
+  // How sure the user was, when asked
+  confidence?: Confidence;
 }
 
 // Quiz attempt
@@ -91,6 +270,14 @@ export interface QuizAttempt {
   questionIds: string[];
   results: QuizResult[];
   score: number;
+  // Highest difficulty reached in an adaptive session
+  difficultyReached?: Difficulty;
+  // Note containing the vault-recall block the quiz was taken from
+  embeddedIn?: string;
+  // Set when the quiz was ended early; only answered questions are included
+  partial?: boolean;
+  // Present when the quiz was taken in exam mode
+  exam?: ExamSettings;
 }
 
 // History file schema
@@ -99,6 +286,29 @@ export interface HistoryFile {
   attempts: QuizAttempt[];
 }
 
+// Per-question spaced repetition state
+export interface ReviewState {
+  questionId: string;
+  due: string;
+  lastReviewed: string;
+  interval: number;
+  reps: number;
+  lapses: number;
+  // SM-2
+  ease: number;
+  // FSRS
+  stability: number;
+  fsrsDifficulty: number;
+  // Leitner (1-based)
+  box: number;
+}
+
+// Review file schema
+export interface ReviewFile {
+  version: number;
+  reviews: Record<string, ReviewState>;
+}
+
 // Import file schema
 export interface ImportFile {
   questions: Question[];
@@ -110,10 +320,43 @@ export interface ValidationResult {
   errors: string[];
 }
 
+// Time limits for an exam-mode session, in seconds (0 for no limit)
+export interface ExamSettings {
+  timeLimit: number;
+  questionTimeLimit: number;
+}
+
+// Adaptive difficulty state for a quiz session
+export interface AdaptiveState {
+  level: Difficulty;
+  peakLevel: Difficulty;
+  correctStreak: number;
+  missStreak: number;
+  targetCount: number;
+  // Questions not yet picked
+  remaining: Question[];
+}
+
 // Quiz session (runtime state)
 export interface QuizSession {
+  id: string;
   questions: Question[];
   currentIndex: number;
   results: QuizResult[];
   startTime: number;
+  // Present when questions are picked one at a time by difficulty
+  adaptive?: AdaptiveState;
+  // Present in exam mode: feedback is held back until the end and time is limited
+  exam?: ExamSettings;
+}
+
+// A paused quiz session, saved to session.json so it can be resumed
+export interface SessionFile {
+  version: number;
+  savedAt: string;
+  session: QuizSession;
+  // Time spent in the session so far, in milliseconds
+  elapsed: number;
+  // Time already spent on the current, unanswered question
+  questionElapsed: number;
 }
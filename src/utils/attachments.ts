@@ -0,0 +1,52 @@
+/**
+ * Helpers for vault attachments referenced by questions (e.g. the image field)
+ */
+
+import { App, TFile, normalizePath } from 'obsidian';
+
+/**
+ * Extracts the link target from an image reference.
+ * Accepts a plain vault path, an ![[embed]] (size and alias after | are dropped),
+ * or a markdown image ![alt](path).
+ */
+export function parseAttachmentLink(reference: string): string {
+  const trimmed = reference.trim();
+
+  const embed = /^!?\[\[([^\]|#]+)(?:[#|][^\]]*)?\]\]$/.exec(trimmed);
+  if (embed) {
+    return (embed[1] ?? '').trim();
+  }
+
+  const markdown = /^!\[[^\]]*\]\(([^)]+)\)$/.exec(trimmed);
+  if (markdown) {
+    const target = (markdown[1] ?? '').trim();
+    try {
+      return decodeURI(target);
+    } catch {
+      // A stray % (e.g. 50%.png) isn't an escape; use the path as written
+      return target;
+    }
+  }
+
+  return trimmed;
+}
+
+/**
+ * Resolves an image reference to a file in the vault.
+ * Links resolve like Obsidian embeds, relative to the note the question came from.
+ * Returns null if no such file exists.
+ */
+export function resolveAttachment(app: App, reference: string, sourcePath: string): TFile | null {
+  const link = parseAttachmentLink(reference);
+  if (!link) {
+    return null;
+  }
+
+  const linked = app.metadataCache.getFirstLinkpathDest(link, sourcePath);
+  if (linked) {
+    return linked;
+  }
+
+  const file = app.vault.getAbstractFileByPath(normalizePath(link));
+  return file instanceof TFile ? file : null;
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { editDistance, matchesAnswer, matchesOutput, normalizeAnswer, parseNumber } from './grading';
+
+describe('normalizeAnswer', () => {
+  it('ignores case, accents, punctuation and a leading article', () => {
+    expect(normalizeAnswer('  The Café-Crème! ')).toBe('cafe creme');
+  });
+});
+
+describe('parseNumber', () => {
+  it('reads integers, decimals, fractions and thousands separators', () => {
+    expect(parseNumber('42')).toBe(42);
+    expect(parseNumber('-0.5')).toBe(-0.5);
+    expect(parseNumber('1/4')).toBe(0.25);
+    expect(parseNumber('1,000')).toBe(1000);
+  });
+
+  it('returns null for text and division by zero', () => {
+    expect(parseNumber('forty')).toBeNull();
+    expect(parseNumber('1/0')).toBeNull();
+    expect(parseNumber('')).toBeNull();
+  });
+});
+
+describe('editDistance', () => {
+  it('counts insertions, deletions and substitutions', () => {
+    expect(editDistance('kitten', 'sitting')).toBe(3);
+    expect(editDistance('', 'abc')).toBe(3);
+    expect(editDistance('same', 'same')).toBe(0);
+  });
+});
+
+describe('matchesAnswer', () => {
+  it('accepts any of the accepted answers after normalizing', () => {
+    expect(matchesAnswer('the mitochondria', ['Mitochondria'], { fuzzy: false })).toBe(true);
+    expect(matchesAnswer('powerhouse', ['Mitochondria', 'Powerhouse'], { fuzzy: false })).toBe(true);
+  });
+
+  it('forgives typos only when fuzzy and only on longer answers', () => {
+    expect(matchesAnswer('mitocondria', ['mitochondria'], { fuzzy: true })).toBe(true);
+    expect(matchesAnswer('mitocondria', ['mitochondria'], { fuzzy: false })).toBe(false);
+    expect(matchesAnswer('car', ['cat'], { fuzzy: true })).toBe(false);
+  });
+
+  it('compares numbers by value, never by typo distance', () => {
+    expect(matchesAnswer('0.5', ['1/2'], { fuzzy: true })).toBe(true);
+    expect(matchesAnswer('1001', ['1000'], { fuzzy: true })).toBe(false);
+  });
+});
+
+describe('matchesOutput', () => {
+  it('ignores whitespace but not case', () => {
+    expect(matchesOutput('[1, 2,\n 3]', '[1,2,3]')).toBe(true);
+    expect(matchesOutput('True', 'true')).toBe(false);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Answer matching for typed answers (fill-in-the-blank, short answer)
+ *
+ * Compares a user's input against a list of accepted answers, forgiving
+ * differences that don't change meaning: case, accents, punctuation,
+ * leading articles, small typos, and equivalent ways of writing a number.
+ */
+
+export interface MatchOptions {
+  // Allow small typos, scaled by answer length
+  fuzzy: boolean;
+}
+
+const ARTICLES = /^(a|an|the)\s+/;
+const PUNCTUATION = /[!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~‘’“”–—]/g;
+
+/**
+ * Normalizes an answer for comparison: lowercase, strip accents and
+ * punctuation, drop a leading article, collapse whitespace.
+ */
+export function normalizeAnswer(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(PUNCTUATION, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(ARTICLES, '');
+}
+
+/**
+ * Parses a number written as an integer, decimal, fraction (1/2) or with
+ * thousands separators (1,000). Returns null if the value isn't numeric.
+ */
+export function parseNumber(value: string): number | null {
+  const cleaned = value.trim().replace(/(\d),(?=\d{3}\b)/g, '$1').replace(/\s+/g, '');
+  if (cleaned === '') return null;
+
+  const fraction = cleaned.match(/^(-?\d+(?:\.\d+)?)\/(\d+(?:\.\d+)?)$/);
+  if (fraction) {
+    const denominator = Number(fraction[2]);
+    return denominator === 0 ? null : Number(fraction[1]) / denominator;
+  }
+
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(cleaned)) return null;
+  return Number(cleaned);
+}
+
+/**
+ * Levenshtein edit distance between two strings.
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        (previous[j] ?? 0) + 1,
+        (current[j - 1] ?? 0) + 1,
+        (previous[j - 1] ?? 0) + cost
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length] ?? 0;
+}
+
+/**
+ * Number of typos tolerated for an answer of the given length.
+ * Short answers must be exact so "cat" doesn't match "car".
+ */
+function allowedEdits(length: number): number {
+  if (length <= 3) return 0;
+  if (length <= 7) return 1;
+  return 2;
+}
+
+/**
+ * Checks a user's input against every accepted answer.
+ */
+export function matchesAnswer(input: string, accepted: string[], options: MatchOptions): boolean {
+  const normalizedInput = normalizeAnswer(input);
+  const inputNumber = parseNumber(input);
+
+  return accepted.some((answer) => {
+    // Numbers compare by value, never by typo distance
+    const answerNumber = parseNumber(answer);
+    if (inputNumber !== null && answerNumber !== null) {
+      return Math.abs(inputNumber - answerNumber) <= 1e-9 * Math.max(1, Math.abs(answerNumber));
+    }
+
+    const normalizedAnswer = normalizeAnswer(answer);
+    if (normalizedInput === normalizedAnswer) return true;
+    if (!options.fuzzy || answerNumber !== null) return false;
+
+    return editDistance(normalizedInput, normalizedAnswer) <= allowedEdits(normalizedAnswer.length);
+  });
+}
+
+/**
+ * Checks program output against the expected output, ignoring all whitespace.
+ * Case and punctuation still matter, since they are part of what a program prints.
+ */
+export function matchesOutput(input: string, expected: string): boolean {
+  const strip = (value: string) => value.replace(/\s+/g, '');
+  return strip(input) === strip(expected);
+}
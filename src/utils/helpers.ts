@@ -15,6 +15,26 @@ export function generateId(): string {
   return result;
 }
 
+/**
+ * Hashes a string to a short, stable base-36 key (32-bit FNV-1a).
+ * Used for IDs that must be the same every time the same input is seen.
+ */
+export function hashString(input: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * Capitalizes the first letter of a string, e.g. for showing a stored value as a label.
+ */
+export function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
 /**
  * Gets the current timestamp in ISO format.
  */
@@ -33,6 +53,30 @@ export function getTodayDate(): string {
   return `${year}-${month}-${day}`;
 }
 
+/**
+ * Adds a number of days to a YYYY-MM-DD date string.
+ */
+export function addDays(dateStr: string, days: number): string {
+  const parts = dateStr.split('-').map(Number);
+  const date = new Date(parts[0] ?? 0, (parts[1] ?? 1) - 1, (parts[2] ?? 1) + days);
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Calculates the number of whole days between two YYYY-MM-DD date strings.
+ */
+export function daysBetween(from: string, to: string): number {
+  const toTime = (dateStr: string): number => {
+    const parts = dateStr.split('-').map(Number);
+    return new Date(parts[0] ?? 0, (parts[1] ?? 1) - 1, parts[2] ?? 1).getTime();
+  };
+  const msPerDay = 24 * 60 * 60 * 1000;
+  return Math.round((toTime(to) - toTime(from)) / msPerDay);
+}
+
 /**
  * Shuffles an array in place using Fisher-Yates algorithm.
  * Returns the same array reference.
@@ -53,3 +97,16 @@ export function shuffleArray<T>(array: T[]): T[] {
 export function shuffledCopy<T>(array: T[]): T[] {
   return shuffleArray([...array]);
 }
+
+/**
+ * Formats a duration in milliseconds as e.g. "45s" or "2m 05s".
+ */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  if (totalSeconds < 60) {
+    return `${totalSeconds}s`;
+  }
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}m ${seconds < 10 ? '0' : ''}${seconds}s`;
+}
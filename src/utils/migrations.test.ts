@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { MIGRATIONS, getCurrentVersion, getStoredVersion, migrateData } from './migrations';
+import type { MigratedFile } from './migrations';
+
+describe('getStoredVersion', () => {
+  it('treats data without a valid version as version 0', () => {
+    expect(getStoredVersion([])).toBe(0);
+    expect(getStoredVersion({})).toBe(0);
+    expect(getStoredVersion({ version: 'two' })).toBe(0);
+    expect(getStoredVersion({ version: 1.5 })).toBe(0);
+    expect(getStoredVersion({ version: 3 })).toBe(3);
+  });
+});
+
+describe('MIGRATIONS', () => {
+  it('has steps in order with no gaps for every file', () => {
+    for (const file of Object.keys(MIGRATIONS) as MigratedFile[]) {
+      MIGRATIONS[file].forEach((step, index) => expect(step.from).toBe(index));
+    }
+  });
+});
+
+describe('migrateData', () => {
+  it('wraps a bare array as the file main list', () => {
+    const { data, from, to } = migrateData('questions.json', [{ id: 'q1' }]);
+    expect(from).toBe(0);
+    expect(to).toBe(getCurrentVersion('questions.json'));
+    expect(data).toEqual({ questions: [{ id: 'q1' }], version: to });
+  });
+
+  it('fills in a missing list on an unversioned object', () => {
+    const { data } = migrateData('history.json', { other: true });
+    expect(data.attempts).toEqual([]);
+    expect(data.other).toBe(true);
+  });
+
+  it('leaves current data unchanged', () => {
+    const current = { version: getCurrentVersion('review.json'), reviews: { q1: {} } };
+    expect(migrateData('review.json', current).data).toEqual(current);
+  });
+});
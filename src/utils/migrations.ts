@@ -0,0 +1,126 @@
+/**
+ * Schema migrations for the versioned files in .quiz/
+ *
+ * Each file has its own list of steps. A step upgrades data from one version
+ * to the next, so older files are brought up to date one version at a time.
+ * Steps start at version 0 (files written before versioning, which have no
+ * version field) and must stay in order with no gaps.
+ */
+
+import {
+  CONFIG_FILE,
+  QUESTIONS_FILE,
+  PENDING_FILE,
+  HISTORY_FILE,
+  REVIEW_FILE,
+} from '../constants';
+
+export type MigratedFile =
+  | typeof CONFIG_FILE
+  | typeof QUESTIONS_FILE
+  | typeof PENDING_FILE
+  | typeof HISTORY_FILE
+  | typeof REVIEW_FILE;
+
+export interface Migration {
+  // Version the data is in before this step; the step produces from + 1
+  from: number;
+  description: string;
+  // Reshapes the data; the version field is set by migrateData
+  up: (data: unknown) => Record<string, unknown>;
+}
+
+export interface MigrationOutcome {
+  data: Record<string, unknown>;
+  from: number;
+  to: number;
+}
+
+/**
+ * Wraps an unversioned file: a bare array becomes the file's main list,
+ * and an object gets the list filled in if it is missing.
+ */
+function versionList(key: string): (data: unknown) => Record<string, unknown> {
+  return (data) => {
+    if (Array.isArray(data)) {
+      return { [key]: data };
+    }
+    const record = isRecord(data) ? data : {};
+    return { ...record, [key]: Array.isArray(record[key]) ? record[key] : [] };
+  };
+}
+
+export const MIGRATIONS: Record<MigratedFile, Migration[]> = {
+  [CONFIG_FILE]: [
+    {
+      from: 0,
+      description: 'Add the version field',
+      // Missing sections are filled from the defaults when the config is read
+      up: (data) => ({ ...(isRecord(data) ? data : {}) }),
+    },
+  ],
+  [QUESTIONS_FILE]: [
+    { from: 0, description: 'Wrap unversioned questions', up: versionList('questions') },
+  ],
+  [PENDING_FILE]: [
+    { from: 0, description: 'Wrap unversioned pending notes', up: versionList('notes') },
+  ],
+  [HISTORY_FILE]: [
+    { from: 0, description: 'Wrap unversioned quiz history', up: versionList('attempts') },
+  ],
+  [REVIEW_FILE]: [
+    {
+      from: 0,
+      description: 'Add the version field',
+      up: (data) => {
+        const record = isRecord(data) ? data : {};
+        return { ...record, reviews: isRecord(record.reviews) ? record.reviews : {} };
+      },
+    },
+  ],
+};
+
+/**
+ * Gets the version the plugin reads and writes for a file.
+ * Steps run from version 0, so this is the number of steps.
+ */
+export function getCurrentVersion(file: MigratedFile): number {
+  return MIGRATIONS[file].length;
+}
+
+/**
+ * Gets the version a file's data was written with.
+ * Data without a valid version field predates versioning and counts as 0.
+ */
+export function getStoredVersion(data: unknown): number {
+  if (!isRecord(data)) {
+    return 0;
+  }
+  const version = data.version;
+  return typeof version === 'number' && Number.isInteger(version) && version > 0 ? version : 0;
+}
+
+/**
+ * Upgrades a file's data to the current version, one step at a time.
+ * Data already at the current version is returned unchanged.
+ * Data from a newer version can't be migrated; check getStoredVersion first.
+ */
+export function migrateData(file: MigratedFile, data: unknown): MigrationOutcome {
+  const from = getStoredVersion(data);
+  const to = getCurrentVersion(file);
+  let migrated: unknown = data;
+
+  for (let version = from; version < to; version++) {
+    const step = MIGRATIONS[file][version];
+    if (!step || step.from !== version) {
+      throw new Error(`No migration for ${file} from version ${version}`);
+    }
+    migrated = { ...step.up(migrated), version: version + 1 };
+  }
+
+  return { data: isRecord(migrated) ? migrated : {}, from, to };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
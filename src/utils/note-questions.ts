@@ -0,0 +1,121 @@
+/**
+ * Helpers for questions that are derived from note content (cloze and inline questions)
+ *
+ * Note-owned questions are regenerated from their note, so they are merged by
+ * ID: unchanged questions are kept, edited ones replaced, and missing ones removed.
+ */
+
+import type { Question, QuestionOrigin } from '../types';
+import { hashString } from './helpers';
+
+export interface NoteMergeCounts {
+  added: number;
+  updated: number;
+  removed: number;
+}
+
+/**
+ * Checks whether a question is owned by a note rather than imported.
+ */
+export function isNoteOwned(question: Question): boolean {
+  return question.origin !== undefined;
+}
+
+/**
+ * Builds a stable ID for the nth question of a kind extracted from a note.
+ */
+export function noteQuestionId(prefix: string, notePath: string, position: number): string {
+  return `${prefix}${hashString(`${notePath}#${position}`)}`;
+}
+
+/**
+ * Returns the text of a markdown heading line, or null if the line is not a heading.
+ */
+export function parseHeading(line: string): string | null {
+  const match = /^#{1,6}\s+(.+?)(?:\s+#+)?\s*$/.exec(line);
+  return match ? (match[1] ?? null) : null;
+}
+
+/**
+ * Returns a note's lines, skipping frontmatter and fenced code blocks.
+ */
+export function getScannableLines(content: string): string[] {
+  const lines = content.split(/\r?\n/);
+  const result: string[] = [];
+  let start = 0;
+
+  if (lines[0]?.trim() === '---') {
+    const end = lines.findIndex((line, i) => i > 0 && line.trim() === '---');
+    if (end !== -1) {
+      start = end + 1;
+    }
+  }
+
+  let inFence = false;
+  for (let i = start; i < lines.length; i++) {
+    const line = lines[i] ?? '';
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (!inFence) {
+      result.push(line);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Replaces a note's questions of one origin with a fresh extraction.
+ * Questions keep their createdAt when updated; unchanged questions are left as-is.
+ * Counts are added to counts.
+ */
+export function mergeNoteQuestions(
+  questions: Question[],
+  notePath: string,
+  origin: QuestionOrigin,
+  extracted: Question[],
+  counts: NoteMergeCounts
+): Question[] {
+  const extractedById = new Map(extracted.map((q) => [q.id, q]));
+  const existingIds = new Set<string>();
+  const merged: Question[] = [];
+
+  for (const question of questions) {
+    if (question.origin !== origin || question.sourceNote !== notePath) {
+      merged.push(question);
+      continue;
+    }
+
+    const fresh = extractedById.get(question.id);
+    if (!fresh) {
+      counts.removed++;
+      continue;
+    }
+
+    existingIds.add(question.id);
+    if (isSameQuestion(question, fresh)) {
+      merged.push(question);
+    } else {
+      merged.push({ ...fresh, createdAt: question.createdAt });
+      counts.updated++;
+    }
+  }
+
+  for (const question of extracted) {
+    if (!existingIds.has(question.id)) {
+      merged.push(question);
+      counts.added++;
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Compares two questions, ignoring when they were created.
+ */
+function isSameQuestion(a: Question, b: Question): boolean {
+  return JSON.stringify({ ...a, createdAt: '' }) === JSON.stringify({ ...b, createdAt: '' });
+}
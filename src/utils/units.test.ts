@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { convertUnit, findUnit, parseQuantity } from './units';
+
+describe('parseQuantity', () => {
+  it('splits a number from its unit', () => {
+    expect(parseQuantity('1.5 GB')).toEqual({ value: 1.5, unit: 'GB' });
+    expect(parseQuantity('1536MB')).toEqual({ value: 1536, unit: 'MB' });
+    expect(parseQuantity('42')).toEqual({ value: 42, unit: null });
+  });
+
+  it('returns null without a number', () => {
+    expect(parseQuantity('GB')).toBeNull();
+  });
+});
+
+describe('findUnit', () => {
+  it('falls back to a case-insensitive match', () => {
+    expect(findUnit('gb')).toBe(findUnit('GB'));
+    expect(findUnit('parsecs')).toBeNull();
+  });
+});
+
+describe('convertUnit', () => {
+  it('converts within a dimension', () => {
+    expect(convertUnit(2, 'kW', 'W')).toBe(2000);
+    expect(convertUnit(1, 'J', 'J')).toBe(1);
+  });
+
+  it('returns null across dimensions or for unknown units', () => {
+    expect(convertUnit(1, 'kW', 'kJ')).toBeNull();
+    expect(convertUnit(1, 'kW', 'parsecs')).toBeNull();
+  });
+});
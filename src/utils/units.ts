@@ -0,0 +1,110 @@
+/**
+ * Unit conversion for numeric answers
+ *
+ * Each unit belongs to a dimension and has a factor relative to that
+ * dimension's base unit, so "1.5 GB" and "1536 MB" compare as equal.
+ */
+
+import { parseNumber } from './grading';
+
+interface UnitDefinition {
+  dimension: string;
+  factor: number;
+  aliases: string[];
+}
+
+const KIB = 1024;
+
+const UNITS: UnitDefinition[] = [
+  // Data size (binary multiples, as used for memory and storage capacity)
+  { dimension: 'data', factor: 1, aliases: ['B', 'byte', 'bytes'] },
+  { dimension: 'data', factor: KIB, aliases: ['KB', 'KiB', 'kB'] },
+  { dimension: 'data', factor: KIB ** 2, aliases: ['MB', 'MiB'] },
+  { dimension: 'data', factor: KIB ** 3, aliases: ['GB', 'GiB'] },
+  { dimension: 'data', factor: KIB ** 4, aliases: ['TB', 'TiB'] },
+  { dimension: 'data', factor: KIB ** 5, aliases: ['PB', 'PiB'] },
+  // Data rate (decimal multiples)
+  { dimension: 'rate', factor: 1, aliases: ['bps', 'b/s'] },
+  { dimension: 'rate', factor: 1e3, aliases: ['Kbps', 'kbps', 'Kb/s'] },
+  { dimension: 'rate', factor: 1e6, aliases: ['Mbps', 'Mb/s'] },
+  { dimension: 'rate', factor: 1e9, aliases: ['Gbps', 'Gb/s'] },
+  { dimension: 'rate', factor: 1e12, aliases: ['Tbps', 'Tb/s'] },
+  // Time
+  { dimension: 'time', factor: 1e-9, aliases: ['ns'] },
+  { dimension: 'time', factor: 1e-6, aliases: ['us', 'µs', 'μs'] },
+  { dimension: 'time', factor: 1e-3, aliases: ['ms'] },
+  { dimension: 'time', factor: 1, aliases: ['s', 'sec', 'secs', 'second', 'seconds'] },
+  { dimension: 'time', factor: 60, aliases: ['min', 'mins', 'minute', 'minutes'] },
+  { dimension: 'time', factor: 3600, aliases: ['h', 'hr', 'hrs', 'hour', 'hours'] },
+  { dimension: 'time', factor: 86400, aliases: ['d', 'day', 'days'] },
+  // Length
+  { dimension: 'length', factor: 1e-9, aliases: ['nm'] },
+  { dimension: 'length', factor: 1e-6, aliases: ['um', 'µm', 'μm'] },
+  { dimension: 'length', factor: 1e-3, aliases: ['mm'] },
+  { dimension: 'length', factor: 1e-2, aliases: ['cm'] },
+  { dimension: 'length', factor: 1, aliases: ['m', 'meter', 'meters', 'metre', 'metres'] },
+  { dimension: 'length', factor: 1e3, aliases: ['km'] },
+  { dimension: 'length', factor: 0.0254, aliases: ['in', 'inch', 'inches'] },
+  { dimension: 'length', factor: 0.3048, aliases: ['ft', 'foot', 'feet'] },
+  { dimension: 'length', factor: 1609.344, aliases: ['mi', 'mile', 'miles'] },
+  // Mass
+  { dimension: 'mass', factor: 1e-3, aliases: ['mg'] },
+  { dimension: 'mass', factor: 1, aliases: ['g', 'gram', 'grams'] },
+  { dimension: 'mass', factor: 1e3, aliases: ['kg'] },
+  // Frequency
+  { dimension: 'frequency', factor: 1, aliases: ['Hz'] },
+  { dimension: 'frequency', factor: 1e3, aliases: ['kHz', 'KHz'] },
+  { dimension: 'frequency', factor: 1e6, aliases: ['MHz'] },
+  { dimension: 'frequency', factor: 1e9, aliases: ['GHz'] },
+  // Energy and power
+  { dimension: 'energy', factor: 1, aliases: ['J'] },
+  { dimension: 'energy', factor: 1e3, aliases: ['kJ'] },
+  { dimension: 'power', factor: 1, aliases: ['W'] },
+  { dimension: 'power', factor: 1e3, aliases: ['kW'] },
+  { dimension: 'power', factor: 1e6, aliases: ['MW'] },
+];
+
+export interface Quantity {
+  value: number;
+  unit: string | null;
+}
+
+/**
+ * Finds a unit by alias. Exact case wins; a case-insensitive match is used
+ * as a fallback so "gb" still works (with bytes preferred over bits).
+ */
+export function findUnit(unit: string): UnitDefinition | null {
+  const exact = UNITS.find((u) => u.aliases.includes(unit));
+  if (exact) return exact;
+  const lower = unit.toLowerCase();
+  return UNITS.find((u) => u.aliases.some((a) => a.toLowerCase() === lower)) ?? null;
+}
+
+/**
+ * Parses input like "1.5 GB", "1536MB" or "42" into a value and optional unit.
+ * Returns null if there's no number.
+ */
+export function parseQuantity(input: string): Quantity | null {
+  const match = input
+    .trim()
+    .match(/^([-+]?(?:[\d,]*\.?\d+|\d[\d,]*\.?)(?:\/\d+(?:\.\d+)?)?(?:e[-+]?\d+)?)\s*(.*)$/i);
+  if (!match) return null;
+
+  const value = parseNumber(match[1] ?? '');
+  if (value === null) return null;
+
+  const unit = match[2]?.trim() ?? '';
+  return { value, unit: unit === '' ? null : unit };
+}
+
+/**
+ * Converts a value between two units of the same dimension.
+ * Returns null if either unit is unknown or the dimensions differ.
+ */
+export function convertUnit(value: number, from: string, to: string): number | null {
+  if (from === to) return value;
+  const fromUnit = findUnit(from);
+  const toUnit = findUnit(to);
+  if (!fromUnit || !toUnit || fromUnit.dimension !== toUnit.dimension) return null;
+  return (value * fromUnit.factor) / toUnit.factor;
+}
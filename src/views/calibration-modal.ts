@@ -0,0 +1,121 @@
+/**
+ * CalibrationModal - Shows how confidence ratings compare to correctness
+ */
+
+import { App, Modal } from 'obsidian';
+import type { CalibrationReport } from '../services/calibration-service';
+import type { Question } from '../types';
+import { capitalize } from '../utils/helpers';
+
+// How many confidently wrong questions are listed
+const MAX_LISTED = 20;
+
+export class CalibrationModal extends Modal {
+  constructor(
+    app: App,
+    private report: CalibrationReport,
+    private onReview: (questions: Question[]) => void
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('vr-calibration-modal');
+
+    contentEl.createEl('h2', { cls: 'vr-calibration-title', text: 'Confidence calibration' });
+
+    const totalAnswers = this.report.levels.reduce((sum, l) => sum + l.answers, 0);
+    if (totalAnswers === 0) {
+      contentEl.createEl('p', {
+        cls: 'vr-calibration-empty',
+        text: 'No rated answers yet. Turn on "ask for confidence" in settings, then take a few quizzes.',
+      });
+      return;
+    }
+
+    contentEl.createEl('p', {
+      cls: 'vr-calibration-hint',
+      text: 'When your confidence is well calibrated, sure answers are almost always right and guesses rarely are.',
+    });
+
+    this.renderLevels(contentEl);
+    this.renderConfidentlyWrong(contentEl);
+  }
+
+  onClose(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+
+  /**
+   * Renders the share of correct answers at each confidence level.
+   */
+  private renderLevels(containerEl: HTMLElement): void {
+    const table = containerEl.createEl('table', { cls: 'vr-calibration-table' });
+    const headerRow = table.createEl('thead').createEl('tr');
+    for (const heading of ['Confidence', 'Answers', 'Correct']) {
+      headerRow.createEl('th', { text: heading });
+    }
+
+    const body = table.createEl('tbody');
+    for (const level of this.report.levels) {
+      const row = body.createEl('tr');
+      row.createEl('td', { text: capitalize(level.confidence) });
+      row.createEl('td', { text: String(level.answers) });
+
+      const cell = row.createEl('td');
+      if (level.answers === 0) {
+        cell.textContent = '–';
+        continue;
+      }
+      const percent = Math.round((level.correct / level.answers) * 100);
+      const bar = cell.createDiv({ cls: 'vr-calibration-bar' });
+      bar.createDiv({ cls: 'vr-calibration-fill' }).setCssProps({ '--vr-fill': `${percent}%` });
+      cell.createSpan({ cls: 'vr-calibration-percent', text: `${percent}%` });
+    }
+  }
+
+  /**
+   * Lists questions answered wrong while sure, with a button to quiz them.
+   */
+  private renderConfidentlyWrong(containerEl: HTMLElement): void {
+    const section = containerEl.createDiv({ cls: 'vr-calibration-section' });
+    section.createEl('h3', { text: 'Sure but wrong' });
+
+    const { confidentlyWrong } = this.report;
+    if (confidentlyWrong.length === 0) {
+      section.createEl('p', {
+        cls: 'vr-calibration-empty',
+        text: 'No questions answered wrong while sure.',
+      });
+      return;
+    }
+
+    section.createEl('p', {
+      cls: 'vr-calibration-hint',
+      text: 'These are the most valuable to review: you believed you knew them.',
+    });
+
+    const list = section.createDiv({ cls: 'vr-calibration-list' });
+    for (const entry of confidentlyWrong.slice(0, MAX_LISTED)) {
+      const item = list.createDiv({ cls: 'vr-calibration-item' });
+      item.createDiv({ cls: 'vr-calibration-question', text: entry.question.question });
+      item.createDiv({
+        cls: 'vr-calibration-meta',
+        text: `${entry.question.sourceNote} · wrong ${entry.count} time${entry.count !== 1 ? 's' : ''} while sure`,
+      });
+    }
+
+    const actions = section.createDiv({ cls: 'vr-quiz-actions' });
+    const reviewBtn = actions.createEl('button', {
+      cls: 'vr-btn vr-btn-primary',
+      text: `Quiz me on these (${confidentlyWrong.length})`,
+    });
+    reviewBtn.addEventListener('click', () => {
+      this.close();
+      this.onReview(confidentlyWrong.map((entry) => entry.question));
+    });
+  }
+}
@@ -0,0 +1,291 @@
+/**
+ * EmbeddedQuiz - Inline quiz rendered from a vault-recall code block
+ *
+ * Block syntax (one "key: value" per line, all optional):
+ *   source: this | path/to/note.md   questions from a note (default: this note)
+ *   folder: path/to/folder           questions from every note in a folder
+ *   tag: #tag                        questions from notes with a tag
+ *   ids: q_abc123, q_def456          specific questions
+ *   count: 5                         number of questions (default: all)
+ *   types: multiple_choice, numeric  only these question types
+ */
+
+import { MarkdownRenderChild, Notice, TFile, getAllTags } from 'obsidian';
+import type VaultRecallPlugin from '../main';
+import type { Question, QuestionType, QuizSession } from '../types';
+import { QuestionRenderer } from '../components/question-renderer';
+import { LiveRegion } from '../components/live-region';
+import { VALID_QUESTION_TYPES } from '../constants';
+
+export interface EmbedOptions {
+  // Note path, or null for the note containing the block. When not set, the
+  // containing note is the source unless folder or ids pick the questions.
+  source?: string | null;
+  folder?: string;
+  tag?: string;
+  ids?: string[];
+  count?: number;
+  types?: QuestionType[];
+}
+
+/**
+ * Parses the contents of a vault-recall block.
+ * Unknown keys and invalid values are reported rather than ignored.
+ */
+export function parseEmbedOptions(source: string): { options: EmbedOptions; errors: string[] } {
+  const options: EmbedOptions = {};
+  const errors: string[] = [];
+
+  for (const rawLine of source.split('\n')) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    const separator = line.indexOf(':');
+    if (separator === -1) {
+      errors.push(`Expected "key: value", got "${line}"`);
+      continue;
+    }
+
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim().replace(/^["']|["']$/g, '');
+    const list = value.split(',').map((v) => v.trim()).filter((v) => v !== '');
+
+    switch (key) {
+      case 'source':
+        options.source = value === '' || value === 'this' ? null : value;
+        break;
+      case 'folder':
+        options.folder = value;
+        break;
+      case 'tag':
+        options.tag = value.startsWith('#') ? value : `#${value}`;
+        break;
+      case 'ids':
+        options.ids = list;
+        break;
+      case 'count': {
+        const count = Number(value);
+        if (Number.isInteger(count) && count > 0) {
+          options.count = count;
+        } else {
+          errors.push(`"count" must be a positive whole number`);
+        }
+        break;
+      }
+      case 'types': {
+        const invalid = list.filter(
+          (t) => !VALID_QUESTION_TYPES.includes(t as typeof VALID_QUESTION_TYPES[number])
+        );
+        if (invalid.length > 0) {
+          errors.push(`Unknown question type: ${invalid.join(', ')}`);
+        }
+        options.types = list.filter((t) => !invalid.includes(t)) as QuestionType[];
+        break;
+      }
+      default:
+        errors.push(`Unknown option "${key}"`);
+    }
+  }
+
+  return { options, errors };
+}
+
+export class EmbeddedQuiz extends MarkdownRenderChild {
+  private renderer: QuestionRenderer;
+  private session: QuizSession | null = null;
+  private questionStartTime = 0;
+
+  constructor(
+    containerEl: HTMLElement,
+    private plugin: VaultRecallPlugin,
+    private source: string,
+    private notePath: string
+  ) {
+    super(containerEl);
+    this.renderer = new QuestionRenderer(plugin.app);
+  }
+
+  onload(): void {
+    this.addChild(this.renderer);
+    this.containerEl.addClass('vr-embed');
+    void this.start();
+  }
+
+  /**
+   * Loads the matching questions and starts a fresh session.
+   * @param focus - Move focus to the first question; off when the note first renders
+   */
+  private async start(focus = false): Promise<void> {
+    const { containerEl } = this;
+    containerEl.empty();
+
+    const { options, errors } = parseEmbedOptions(this.source);
+    if (errors.length > 0) {
+      this.renderMessage(`Invalid vault-recall block: ${errors.join('; ')}`);
+      return;
+    }
+
+    const questions = await this.getQuestions(options);
+    if (questions.length === 0) {
+      this.renderMessage('No questions found for this quiz block.');
+      return;
+    }
+
+    this.session = this.plugin.quizService.startQuiz(
+      questions,
+      options.count,
+      this.plugin.config.sampling
+    );
+    this.renderCurrentQuestion(focus);
+  }
+
+  /**
+   * Collects the questions a block asks for.
+   * Sources narrow each other: e.g. a folder and a tag select notes in the folder with the tag,
+   * and a source set alongside a folder or ids keeps only that note's questions.
+   */
+  private async getQuestions(options: EmbedOptions): Promise<Question[]> {
+    const { quizService } = this.plugin;
+    let questions: Question[];
+
+    if (options.ids) {
+      const ids = new Set(options.ids);
+      questions = (await quizService.getAllQuestions()).filter((q) => ids.has(q.id));
+    } else if (options.folder) {
+      questions = await quizService.getQuestionsByFolder(options.folder);
+    } else if (options.tag && options.source === undefined) {
+      questions = await quizService.getAllQuestions();
+    } else {
+      questions = await quizService.getQuestionsBySource(options.source ?? this.notePath);
+    }
+
+    if ((options.ids || options.folder) && options.source !== undefined) {
+      const source = options.source ?? this.notePath;
+      questions = questions.filter((q) => q.sourceNote === source);
+    }
+
+    if (options.tag) {
+      const tag = options.tag.toLowerCase();
+      questions = questions.filter((q) => this.noteHasTag(q.sourceNote, tag));
+    }
+
+    if (options.types && options.types.length > 0) {
+      const types = new Set(options.types);
+      questions = questions.filter((q) => types.has(q.type));
+    }
+
+    return questions;
+  }
+
+  private noteHasTag(notePath: string, tag: string): boolean {
+    const file = this.plugin.app.vault.getAbstractFileByPath(notePath);
+    if (!(file instanceof TFile)) return false;
+
+    const cache = this.plugin.app.metadataCache.getFileCache(file);
+    const tags = cache ? getAllTags(cache) ?? [] : [];
+    // Nested tags match their parent: #bio/cell matches #bio
+    return tags.some((t) => {
+      const lower = t.toLowerCase();
+      return lower === tag || lower.startsWith(`${tag}/`);
+    });
+  }
+
+  private renderCurrentQuestion(focus = false): void {
+    const { containerEl } = this;
+    const session = this.session;
+    if (!session) return;
+
+    containerEl.empty();
+    const liveRegion = new LiveRegion(containerEl);
+
+    const question = this.plugin.quizService.getCurrentQuestion(session);
+    if (!question) {
+      void this.renderResults(session);
+      return;
+    }
+
+    const header = containerEl.createDiv({ cls: 'vr-embed-header' });
+    const total = this.plugin.quizService.getTotalQuestions(session);
+    header.textContent = `Question ${session.currentIndex + 1} of ${total}`;
+
+    const render = this.renderer.render(question);
+    containerEl.appendChild(render.container);
+    this.questionStartTime = Date.now();
+    if (focus) {
+      this.renderer.focus(render);
+    }
+
+    const actions = containerEl.createDiv({ cls: 'vr-quiz-actions' });
+    const submitBtn = actions.createEl('button', {
+      cls: 'vr-btn vr-btn-primary',
+      text: 'Submit',
+    });
+
+    submitBtn.addEventListener('click', () => {
+      const answer = render.getAnswer();
+      if (answer === null) return;
+
+      const timeSpent = Date.now() - this.questionStartTime;
+      const correct = this.plugin.quizService.submitAnswer(session, answer, timeSpent);
+      const result = session.results[session.results.length - 1];
+      liveRegion.announce(render.showFeedback(correct, question.explanation, result));
+      render.disable();
+      submitBtn.remove();
+
+      const isLastQuestion = this.plugin.quizService.isQuizComplete(session);
+      const nextBtn = actions.createEl('button', {
+        cls: 'vr-btn vr-btn-primary',
+        text: isLastQuestion ? 'See results' : 'Next question',
+      });
+      nextBtn.addEventListener('click', () => this.renderCurrentQuestion(true));
+      nextBtn.focus();
+    });
+  }
+
+  /**
+   * Records the attempt like a modal quiz and shows the score.
+   */
+  private async renderResults(session: QuizSession): Promise<void> {
+    const { containerEl } = this;
+    containerEl.empty();
+    this.session = null;
+
+    const { quizService, schedulerService, streakService } = this.plugin;
+    const attempt = quizService.finishQuiz(session);
+    attempt.embeddedIn = this.notePath;
+
+    // The score is still shown if saving fails
+    try {
+      await quizService.recordAttempt(attempt);
+      await schedulerService.recordResults(attempt.results);
+      await streakService.incrementStreak();
+    } catch (error) {
+      console.error('Vault Recall: Failed to record embedded quiz', error);
+      new Notice('Failed to save quiz results');
+    }
+
+    const correctCount = session.results.filter((r) => r.correct).length;
+    const summary = containerEl.createDiv({ cls: 'vr-embed-results', attr: { tabindex: '-1' } });
+    const score = summary.createDiv({ cls: 'vr-embed-score' });
+    score.createSpan({ cls: 'vr-sr-only', text: 'Score: ' });
+    score.appendText(`${attempt.score}%`);
+    summary.createDiv({
+      cls: 'vr-score-details',
+      text: `${correctCount} out of ${session.results.length} correct`,
+    });
+
+    const actions = containerEl.createDiv({ cls: 'vr-quiz-actions' });
+    const retryBtn = actions.createEl('button', {
+      cls: 'vr-btn vr-btn-secondary',
+      text: 'Try again',
+    });
+    retryBtn.addEventListener('click', () => void this.start(true));
+
+    // Reached from the last question's button, which is gone now
+    summary.focus();
+  }
+
+  private renderMessage(message: string): void {
+    this.containerEl.createDiv({ cls: 'vr-embed-message', text: message });
+  }
+}
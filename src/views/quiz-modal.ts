@@ -2,34 +2,126 @@
  * QuizModal - Modal for taking quizzes
  */
 
-import { Modal, App } from 'obsidian';
+import { Modal, App, Notice, Setting } from 'obsidian';
 import type { QuizService } from '../services/quiz-service';
 import type { StreakService } from '../services/streak-service';
-import type { Question, QuizSession, QuizAttempt } from '../types';
+import type { SchedulerService } from '../services/scheduler-service';
+import type { SessionService } from '../services/session-service';
+import type {
+  Confidence,
+  Config,
+  ExamSettings,
+  Question,
+  QuizSession,
+  QuizAttempt,
+  SamplingOptions,
+  SamplingStrategy,
+  SessionFile,
+} from '../types';
 import { QuestionRenderer } from '../components/question-renderer';
+import type { UserAnswer } from '../components/question-renderer';
+import { QuizReview } from '../components/quiz-review';
+import { LiveRegion } from '../components/live-region';
+import {
+  CONFIDENCE_LEVELS,
+  DEFAULT_CONFIG,
+  DEFAULT_EXAM_SETTINGS,
+  EXAM_WARNING_SECONDS,
+} from '../constants';
+import { capitalize, generateId } from '../utils/helpers';
+
+export interface QuizModalOptions {
+  // Limit on number of questions (defaults to all)
+  count?: number;
+  // How questions are picked and ordered (defaults to random shuffle)
+  sampling?: SamplingOptions;
+  // Pick each next question by running correctness instead of a fixed list
+  adaptive?: boolean;
+  // Keyboard shortcut settings (defaults to shortcuts with hints)
+  keyboard?: Config['keyboard'];
+  // Ask how sure the user is after each answer (defaults to off)
+  askConfidence?: boolean;
+  // Time limits; holds back feedback until the end (defaults to practice mode)
+  exam?: ExamSettings;
+  // Paused quiz to pick up instead of starting a new one from the questions
+  resume?: SessionFile;
+  onComplete?: (attempt: QuizAttempt) => void;
+  // Called after the quiz is paused or ended early
+  onLeave?: () => void;
+}
+
+// Keys handed to the current question when shortcuts are on
+const ANSWER_KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', 't', 'f', 'T', 'F', ' '];
 
 export class QuizModal extends Modal {
   private quizService: QuizService;
   private streakService: StreakService;
+  private schedulerService: SchedulerService;
+  private sessionService: SessionService;
   private session: QuizSession;
   private renderer: QuestionRenderer;
   private currentRender: ReturnType<QuestionRenderer['render']> | null = null;
+  // Announces feedback; lives outside contentEl so re-rendering keeps it
+  private liveRegion: LiveRegion;
   private questionStartTime: number = 0;
+  // Time spent on the current question before the quiz was paused
+  private resumedQuestionTime = 0;
   private onComplete: ((attempt: QuizAttempt) => void) | null = null;
+  private onLeave: (() => void) | null = null;
+  private keyboard: Config['keyboard'];
+  private askConfidence: boolean;
+  // Submits the current answer once a confidence level is picked
+  private pendingConfidence: ((confidence?: Confidence) => void) | null = null;
+  // Kept for retrying missed questions
+  private sampling: SamplingOptions | undefined;
+  private review: QuizReview | null = null;
+  // What Enter does right now: submit, next question, or dismiss a prompt
+  private primaryAction: (() => void) | null = null;
+  // Whether the current question has been answered
+  private answered = false;
+  private finished = false;
+  private confirmingLeave = false;
+  private leaving = false;
+  // Session saves run one after another so a late save can't outlive a clear
+  private persistence: Promise<void> = Promise.resolve();
+  // Exam countdown, ticking once a second while a question is shown
+  private examTimer: number | null = null;
+  private examTimerEl: HTMLElement | null = null;
 
   constructor(
     app: App,
     quizService: QuizService,
     streakService: StreakService,
+    schedulerService: SchedulerService,
+    sessionService: SessionService,
     questions: Question[],
-    onComplete?: (attempt: QuizAttempt) => void
+    options: QuizModalOptions = {}
   ) {
     super(app);
     this.quizService = quizService;
     this.streakService = streakService;
-    this.session = quizService.startQuiz(questions);
-    this.renderer = new QuestionRenderer();
-    this.onComplete = onComplete || null;
+    this.schedulerService = schedulerService;
+    this.sessionService = sessionService;
+    if (options.resume) {
+      this.session = sessionService.restoreSession(options.resume);
+      this.resumedQuestionTime = sessionService.getQuestionElapsed(options.resume);
+    } else if (options.adaptive) {
+      this.session = quizService.startAdaptiveQuiz(questions, options.count, options.sampling);
+    } else {
+      this.session = quizService.startQuiz(questions, options.count, options.sampling);
+    }
+    if (options.exam && !options.resume) {
+      this.session.exam = options.exam;
+    }
+    this.sampling = options.sampling;
+    this.keyboard = options.keyboard ?? DEFAULT_CONFIG.keyboard;
+    this.askConfidence = options.askConfidence ?? false;
+    this.renderer = new QuestionRenderer(app, {
+      showShortcutHints: this.keyboard.shortcuts && this.keyboard.showHints,
+    });
+    this.onComplete = options.onComplete || null;
+    this.onLeave = options.onLeave || null;
+    this.liveRegion = new LiveRegion(this.modalEl);
   }
 
   onOpen(): void {
@@ -37,17 +129,54 @@ export class QuizModal extends Modal {
     contentEl.empty();
     contentEl.addClass('vr-quiz-modal');
 
+    // Owns the markdown rendered into questions until the modal closes
+    this.renderer.load();
+
+    if (this.keyboard.shortcuts) {
+      this.registerShortcuts();
+    }
+
+    if (this.session.exam) {
+      this.examTimer = window.setInterval(() => this.tickExamTimer(), 1000);
+    }
+
     this.renderCurrentQuestion();
   }
 
+  /**
+   * Asks whether to pause or end a quiz that has answers in it.
+   * Covers Esc, the close button and clicking outside the modal.
+   */
+  close(): void {
+    if (this.finished || this.leaving || this.session.results.length === 0) {
+      super.close();
+      return;
+    }
+    if (this.confirmingLeave) {
+      // A second close request while asking pauses, so nothing is lost.
+      // Exams can't be paused, so they wait for an explicit choice.
+      if (!this.session.exam) {
+        this.pause();
+      }
+      return;
+    }
+    this.showLeavePrompt();
+  }
+
   onClose(): void {
     const { contentEl } = this;
     contentEl.empty();
+    this.stopExamTimer();
+    this.renderer.unload();
   }
 
   private renderCurrentQuestion(): void {
     const { contentEl } = this;
     contentEl.empty();
+    // An exam timeout can move on while the leave prompt is open
+    this.confirmingLeave = false;
+    this.pendingConfidence = null;
+    this.liveRegion.clear();
 
     const question = this.quizService.getCurrentQuestion(this.session);
 
@@ -60,25 +189,38 @@ export class QuizModal extends Modal {
     // Progress header
     const header = contentEl.createDiv({ cls: 'vr-quiz-header' });
     const progress = header.createDiv({ cls: 'vr-quiz-progress' });
-    progress.textContent = `Question ${this.session.currentIndex + 1} of ${this.session.questions.length}`;
+    const totalQuestions = this.quizService.getTotalQuestions(this.session);
+    progress.textContent = `Question ${this.session.currentIndex + 1} of ${totalQuestions}`;
 
-    // Progress bar
-    const progressBar = header.createDiv({ cls: 'vr-progress-bar' });
+    // Progress bar (the text above already says the same to screen readers)
+    const progressBar = header.createDiv({ cls: 'vr-progress-bar', attr: { 'aria-hidden': 'true' } });
     const progressFill = progressBar.createDiv({ cls: 'vr-progress-fill' });
-    const percent = ((this.session.currentIndex) / this.session.questions.length) * 100;
+    const percent = ((this.session.currentIndex) / totalQuestions) * 100;
     progressFill.style.width = `${percent}%`;
 
     // Question type badge
     const badge = header.createDiv({ cls: 'vr-question-badge' });
     badge.textContent = this.getQuestionTypeLabel(question.type);
 
+    // Current level badge (adaptive sessions only)
+    if (this.session.adaptive) {
+      const levelBadge = header.createDiv({ cls: 'vr-question-badge vr-level-badge' });
+      levelBadge.textContent = capitalize(question.difficulty);
+    }
+
+    // Countdown (exam sessions only)
+    this.examTimerEl = this.session.exam ? header.createDiv({ cls: 'vr-exam-timer' }) : null;
+
     // Question container
     const questionContainer = contentEl.createDiv({ cls: 'vr-question-container' });
     this.currentRender = this.renderer.render(question);
     questionContainer.appendChild(this.currentRender.container);
 
-    // Start timing
-    this.questionStartTime = Date.now();
+    // Start timing, counting time spent before a pause
+    this.questionStartTime = Date.now() - this.resumedQuestionTime;
+    this.resumedQuestionTime = 0;
+    this.answered = false;
+    this.tickExamTimer();
 
     // Action buttons
     const actions = contentEl.createDiv({ cls: 'vr-quiz-actions' });
@@ -90,6 +232,10 @@ export class QuizModal extends Modal {
     submitBtn.addEventListener('click', () => {
       this.handleSubmit(question, submitBtn, actions);
     });
+    this.primaryAction = () => submitBtn.click();
+
+    // Move focus to the new question, or its answer box on typed questions
+    this.renderer.focus(this.currentRender);
   }
 
   private handleSubmit(
@@ -109,16 +255,110 @@ export class QuizModal extends Modal {
     // Calculate time spent
     const timeSpent = Date.now() - this.questionStartTime;
 
+    // Flashcards are already self-graded, so they skip the confidence step
+    if (this.askConfidence && question.type !== 'flashcard') {
+      this.askForConfidence(actions, submitBtn, (confidence) => {
+        this.submit(question, answer, timeSpent, confidence, submitBtn, actions);
+      });
+      return;
+    }
+
+    this.submit(question, answer, timeSpent, undefined, submitBtn, actions);
+  }
+
+  /**
+   * Replaces the submit button with guess/unsure/sure buttons.
+   * The answer is locked in while the user picks.
+   */
+  private askForConfidence(
+    actions: HTMLElement,
+    submitBtn: HTMLButtonElement,
+    onPick: (confidence?: Confidence) => void
+  ): void {
+    this.currentRender?.disable();
+    submitBtn.addClass('vr-hidden');
+
+    const labelId = `vr-${generateId()}`;
+    const prompt = actions.createDiv({
+      cls: 'vr-confidence',
+      attr: { role: 'group', 'aria-labelledby': labelId, tabindex: '-1' },
+    });
+    prompt.createSpan({ cls: 'vr-confidence-label', text: 'How sure are you?', attr: { id: labelId } });
+
+    const pick = (confidence?: Confidence) => {
+      this.pendingConfidence = null;
+      prompt.remove();
+      onPick(confidence);
+    };
+
+    CONFIDENCE_LEVELS.forEach((level, index) => {
+      const btn = prompt.createEl('button', {
+        cls: 'vr-btn vr-btn-outline vr-confidence-btn',
+        text: capitalize(level),
+      });
+      if (this.keyboard.shortcuts && this.keyboard.showHints) {
+        btn.createEl('kbd', { cls: 'vr-shortcut-hint', text: String(index + 1) });
+      }
+      btn.addEventListener('click', () => pick(level));
+    });
+
+    this.pendingConfidence = pick;
+    this.primaryAction = null;
+    // The submit button is gone, so focus the question being asked
+    prompt.focus();
+  }
+
+  /**
+   * Records the answer and shows feedback (or moves on, in exam mode).
+   */
+  private submit(
+    question: Question,
+    answer: UserAnswer,
+    timeSpent: number,
+    confidence: Confidence | undefined,
+    submitBtn: HTMLButtonElement,
+    actions: HTMLElement
+  ): void {
+    if (!this.currentRender) return;
+
     // Submit answer and get result
-    const correct = this.quizService.submitAnswer(this.session, answer, timeSpent);
+    const correct = this.quizService.submitAnswer(this.session, answer, timeSpent, confidence);
+    this.answered = true;
+    void this.saveProgress(0);
+
+    // Exams hold back feedback until the end
+    if (this.session.exam) {
+      this.renderCurrentQuestion();
+      return;
+    }
 
     // Show feedback
-    this.currentRender.showFeedback(correct, question.explanation);
+    const result = this.session.results[this.session.results.length - 1];
+    const summary = this.currentRender.showFeedback(correct, question.explanation, result);
     this.currentRender.disable();
+    this.liveRegion.announce(summary);
 
     // Replace submit with next button
     submitBtn.remove();
 
+    // Let the user overrule the grader on typed answers
+    if (!correct && this.quizService.canOverride(question)) {
+      const overrideBtn = actions.createEl('button', {
+        cls: 'vr-btn vr-btn-secondary',
+        text: 'I was actually right',
+      });
+      overrideBtn.addEventListener('click', () => {
+        this.quizService.overrideLastResult(this.session);
+        void this.saveProgress(0);
+        const note = document.createElement('span');
+        note.addClass('vr-override-note');
+        note.textContent = 'Counted as correct';
+        overrideBtn.replaceWith(note);
+        this.liveRegion.announce(note.textContent);
+        nextBtn.focus();
+      });
+    }
+
     const isLastQuestion = this.quizService.isQuizComplete(this.session);
     const nextBtn = actions.createEl('button', {
       cls: 'vr-btn vr-btn-primary',
@@ -128,17 +368,300 @@ export class QuizModal extends Modal {
     nextBtn.addEventListener('click', () => {
       this.renderCurrentQuestion();
     });
+    this.primaryAction = () => nextBtn.click();
+    // Submit was removed, so keep focus in the quiz on the way forward
+    nextBtn.focus();
+  }
+
+  /**
+   * Updates the exam countdown and submits for the user when time runs out.
+   * An expired question is recorded as timed out; an expired session times
+   * out every question left.
+   */
+  private tickExamTimer(): void {
+    const exam = this.session.exam;
+    if (!exam || !this.examTimerEl || this.finished) return;
+
+    const now = Date.now();
+    const questionElapsed = now - this.questionStartTime;
+    const sessionLeft = exam.timeLimit > 0 ? exam.timeLimit * 1000 - (now - this.session.startTime) : Infinity;
+    const questionLeft = exam.questionTimeLimit > 0 ? exam.questionTimeLimit * 1000 - questionElapsed : Infinity;
+
+    // An answer waiting on its confidence rating is in, so only the session clock
+    // applies; when that runs out the answer is submitted without a rating
+    if (this.pendingConfidence) {
+      if (sessionLeft <= 0) {
+        this.pendingConfidence();
+      }
+      return;
+    }
+
+    if (sessionLeft <= 0) {
+      this.quizService.timeOutRemaining(this.session, questionElapsed);
+      void this.saveProgress(0);
+      new Notice("Time's up!");
+      this.renderCurrentQuestion();
+      this.liveRegion.announce("Time's up!");
+      return;
+    }
+
+    if (questionLeft <= 0) {
+      this.quizService.submitTimeout(this.session, questionElapsed);
+      void this.saveProgress(0);
+      this.renderCurrentQuestion();
+      this.liveRegion.announce('Out of time for that question. Moved on to the next one.');
+      return;
+    }
+
+    const parts: string[] = [];
+    if (sessionLeft !== Infinity) {
+      parts.push(`${this.formatCountdown(sessionLeft)} left`);
+    }
+    if (questionLeft !== Infinity) {
+      parts.push(`${this.formatCountdown(questionLeft)} for this question`);
+    }
+    this.examTimerEl.textContent = parts.join(' · ');
+    this.examTimerEl.toggleClass(
+      'vr-exam-timer-warning',
+      Math.min(sessionLeft, questionLeft) < EXAM_WARNING_SECONDS * 1000
+    );
+  }
+
+  private stopExamTimer(): void {
+    if (this.examTimer !== null) {
+      window.clearInterval(this.examTimer);
+      this.examTimer = null;
+    }
+  }
+
+  /**
+   * Formats milliseconds left as m:ss, rounding up so 0:00 means time is up.
+   */
+  private formatCountdown(ms: number): string {
+    const totalSeconds = Math.ceil(ms / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${seconds < 10 ? '0' : ''}${seconds}`;
+  }
+
+  /**
+   * Registers quiz shortcuts on the modal's keymap scope.
+   * Answer keys go to the current question; Enter runs the primary action.
+   */
+  private registerShortcuts(): void {
+    for (const key of ANSWER_KEYS) {
+      this.scope.register([], key, (evt) => this.handleAnswerKey(evt));
+    }
+    this.scope.register([], 'Enter', (evt) => this.handleEnter(evt));
+    // Mod+Enter submits from multi-line inputs, where Enter adds a new line
+    this.scope.register(['Mod'], 'Enter', () => {
+      this.primaryAction?.();
+      return false;
+    });
+  }
+
+  private handleAnswerKey(evt: KeyboardEvent): boolean | void {
+    if (this.pendingConfidence && !this.confirmingLeave) {
+      const level = CONFIDENCE_LEVELS[Number(evt.key) - 1];
+      if (level) {
+        this.pendingConfidence(level);
+        return false;
+      }
+      return;
+    }
+    if (this.answered || this.confirmingLeave || this.isTypingTarget(evt.target)) {
+      return;
+    }
+    if (this.currentRender?.handleKey?.(evt.key)) {
+      return false;
+    }
+  }
+
+  private handleEnter(evt: KeyboardEvent): boolean | void {
+    // Focused buttons and multi-line inputs keep their own Enter behaviour
+    if (evt.target instanceof HTMLButtonElement || evt.target instanceof HTMLTextAreaElement) {
+      return;
+    }
+    this.primaryAction?.();
+    return false;
+  }
+
+  /**
+   * Whether keys should go to the focused element rather than the quiz.
+   */
+  private isTypingTarget(target: EventTarget | null): boolean {
+    return (
+      (target instanceof HTMLInputElement && target.type === 'text') ||
+      target instanceof HTMLTextAreaElement ||
+      target instanceof HTMLSelectElement
+    );
+  }
+
+  /**
+   * Shows an inline prompt asking whether to pause or end the quiz.
+   * Enter keeps going; Esc again pauses. Exams can only be ended.
+   */
+  private showLeavePrompt(): void {
+    if (this.contentEl.querySelector('.vr-leave-prompt')) {
+      return;
+    }
+
+    const previousAction = this.primaryAction;
+    const previousFocus = document.activeElement;
+    const textId = `vr-${generateId()}`;
+    const prompt = this.contentEl.createDiv({ cls: 'vr-leave-prompt' });
+    prompt.createDiv({
+      cls: 'vr-leave-text',
+      attr: { id: textId },
+      text: this.session.exam
+        ? 'Leave this exam? The clock keeps running. Ending it now saves the answers you gave.'
+        : 'Leave this quiz? Pause it to pick up where you left off, or end it now and save the answers you gave.',
+    });
+
+    const buttons = prompt.createDiv({ cls: 'vr-quiz-actions' });
+    const keepBtn = buttons.createEl('button', {
+      cls: 'vr-btn vr-btn-primary',
+      text: 'Keep going',
+      // Focus lands here, so the question being asked is read with it
+      attr: { 'aria-describedby': textId },
+    });
+    if (!this.session.exam) {
+      const pauseBtn = buttons.createEl('button', {
+        cls: 'vr-btn vr-btn-secondary',
+        text: 'Pause quiz',
+      });
+      pauseBtn.addEventListener('click', () => this.pause());
+    }
+    const endBtn = buttons.createEl('button', {
+      cls: 'vr-btn vr-btn-secondary',
+      text: this.session.exam ? 'End exam' : 'End quiz',
+    });
+
+    const dismiss = () => {
+      this.confirmingLeave = false;
+      this.primaryAction = previousAction;
+      prompt.remove();
+      if (previousFocus instanceof HTMLElement && previousFocus.isConnected) {
+        previousFocus.focus();
+      }
+    };
+
+    keepBtn.addEventListener('click', dismiss);
+    endBtn.addEventListener('click', () => this.endEarly());
+
+    this.confirmingLeave = true;
+    this.primaryAction = dismiss;
+    keepBtn.focus();
+  }
+
+  /**
+   * Saves the quiz to resume later and closes the modal.
+   */
+  private pause(): void {
+    const questionElapsed = this.answered ? 0 : Date.now() - this.questionStartTime;
+    const saved = this.saveProgress(questionElapsed);
+    this.leaving = true;
+    this.close();
+
+    void saved.then((ok) => {
+      new Notice(
+        ok
+          ? 'Quiz paused. Resume it from the sidebar or the command palette.'
+          : "Couldn't save the quiz, so it can't be resumed where you left off."
+      );
+      this.onLeave?.();
+    });
+  }
+
+  /**
+   * Records the answers given so far as a partial attempt and closes the modal.
+   * Partial attempts update review schedules but not the streak.
+   */
+  private endEarly(): void {
+    const session = this.session;
+    const saved = this.persist(async () => {
+      await this.recordPartialAttempt(session);
+      await this.sessionService.clearSession(session.id);
+    });
+    this.leaving = true;
+    this.close();
+
+    void saved.then((ok) => {
+      const count = session.results.length;
+      new Notice(
+        ok
+          ? `Quiz ended. Saved ${count} answer${count !== 1 ? 's' : ''}.`
+          : "Quiz ended, but its answers couldn't be saved."
+      );
+      this.onLeave?.();
+    });
+  }
+
+  /**
+   * Saves the session to session.json after the previous save has finished.
+   * A different paused quiz that gets replaced is recorded as a partial attempt.
+   */
+  private saveProgress(questionElapsed: number): Promise<boolean> {
+    const session = this.session;
+    return this.persist(async () => {
+      const replaced = await this.sessionService.saveSession(session, questionElapsed);
+      if (replaced) {
+        await this.recordPartialAttempt(replaced.session);
+        new Notice('Your previously paused quiz was ended and its answers saved.');
+      }
+    });
+  }
+
+  private async recordPartialAttempt(session: QuizSession): Promise<void> {
+    const attempt = this.quizService.finishPartialQuiz(session);
+    if (attempt) {
+      await this.quizService.recordAttempt(attempt);
+      await this.schedulerService.recordResults(attempt.results);
+    }
+  }
+
+  /**
+   * Queues a session file update behind earlier ones.
+   * Failures are logged so a broken save doesn't block the next one.
+   * @returns Whether the update was saved
+   */
+  private persist(task: () => Promise<void>): Promise<boolean> {
+    const saved = this.persistence.then(task).then(
+      () => true,
+      (error) => {
+        console.error('Vault Recall: Failed to save quiz session', error);
+        return false;
+      }
+    );
+    this.persistence = saved.then(() => undefined);
+    return saved;
   }
 
   private async renderResults(): Promise<void> {
     const { contentEl } = this;
     contentEl.empty();
+    this.finished = true;
+    this.stopExamTimer();
+    this.primaryAction = () => this.close();
 
     // Finish quiz and get attempt record
     const attempt = this.quizService.finishQuiz(this.session);
 
-    // Record the attempt
-    await this.quizService.recordAttempt(attempt);
+    // Record the attempt behind any session save still running, which may be
+    // recording a replaced paused quiz to the same files
+    const sessionId = this.session.id;
+    const saved = await this.persist(async () => {
+      await this.quizService.recordAttempt(attempt);
+
+      // The finished quiz no longer needs resuming
+      await this.sessionService.clearSession(sessionId);
+
+      // Update spaced repetition state for each answered question
+      await this.schedulerService.recordResults(attempt.results);
+    });
+    if (!saved) {
+      new Notice('Failed to save quiz results');
+    }
 
     // Update streak
     const streakInfo = await this.streakService.incrementStreak();
@@ -146,9 +669,9 @@ export class QuizModal extends Modal {
     // Results container
     const resultsContainer = contentEl.createDiv({ cls: 'vr-quiz-results' });
 
-    // Title
-    const title = resultsContainer.createEl('h2', { cls: 'vr-results-title' });
-    title.textContent = 'Quiz complete!';
+    // Title, focused so screen readers start reading the results from the top
+    const title = resultsContainer.createEl('h2', { cls: 'vr-results-title', attr: { tabindex: '-1' } });
+    title.textContent = attempt.exam ? 'Exam complete!' : 'Quiz complete!';
 
     // Score
     const scoreContainer = resultsContainer.createDiv({ cls: 'vr-score-container' });
@@ -156,15 +679,31 @@ export class QuizModal extends Modal {
     const totalCount = this.session.questions.length;
 
     const scoreCircle = scoreContainer.createDiv({ cls: 'vr-score-circle' });
+    scoreCircle.createSpan({ cls: 'vr-sr-only', text: 'Score: ' });
     const scoreValue = scoreCircle.createDiv({ cls: 'vr-score-value' });
     scoreValue.textContent = `${attempt.score}%`;
 
     const scoreDetails = scoreContainer.createDiv({ cls: 'vr-score-details' });
     scoreDetails.textContent = `${correctCount} out of ${totalCount} correct`;
 
+    // Questions the clock ran out on (exam sessions only)
+    const timedOutCount = this.session.results.filter((r) => r.timedOut).length;
+    if (timedOutCount > 0) {
+      resultsContainer.createDiv({
+        cls: 'vr-results-timed-out',
+        text: `${timedOutCount} question${timedOutCount !== 1 ? 's' : ''} ran out of time`,
+      });
+    }
+
+    // Difficulty reached (adaptive sessions only)
+    if (attempt.difficultyReached) {
+      const levelContainer = resultsContainer.createDiv({ cls: 'vr-results-level' });
+      levelContainer.textContent = `Difficulty reached: ${capitalize(attempt.difficultyReached)}`;
+    }
+
     // Streak info
     const streakContainer = resultsContainer.createDiv({ cls: 'vr-results-streak' });
-    const fireIcon = streakContainer.createSpan({ cls: 'vr-streak-icon' });
+    const fireIcon = streakContainer.createSpan({ cls: 'vr-streak-icon', attr: { 'aria-hidden': 'true' } });
     fireIcon.textContent = '\uD83D\uDD25';
     const streakText = streakContainer.createSpan({ cls: 'vr-streak-text' });
     streakText.textContent = `${streakInfo.current} day streak!`;
@@ -182,29 +721,90 @@ export class QuizModal extends Modal {
       performanceContainer.addClass('vr-performance-needs-work');
     }
 
-    // Done button
+    // Per-question breakdown
+    resultsContainer.createEl('h3', { cls: 'vr-review-title', text: 'Review answers' });
+    this.review = new QuizReview(this.app, this.quizService, {
+      onOpenSource: () => this.complete(attempt),
+    });
+    this.renderer.addChild(this.review);
+    this.review.render(resultsContainer, this.session);
+
     const actions = resultsContainer.createDiv({ cls: 'vr-quiz-actions' });
+
+    // Retry button (only when something was missed)
+    const missed = this.quizService.getMissedQuestions(this.session);
+    if (missed.length > 0) {
+      const retryBtn = actions.createEl('button', {
+        cls: 'vr-btn vr-btn-secondary',
+        text: `Retry the ${missed.length} I missed`,
+      });
+      retryBtn.addEventListener('click', () => this.retryMissed(attempt, missed));
+    }
+
+    // Done button
     const doneBtn = actions.createEl('button', {
       cls: 'vr-btn vr-btn-primary',
       text: 'Done',
     });
 
-    doneBtn.addEventListener('click', () => {
-      this.close();
-      if (this.onComplete) {
-        this.onComplete(attempt);
-      }
-    });
+    doneBtn.addEventListener('click', () => this.complete(attempt));
+    this.primaryAction = () => doneBtn.click();
+
+    title.focus();
+  }
+
+  /**
+   * Closes the modal and reports the finished attempt.
+   */
+  private complete(attempt: QuizAttempt): void {
+    this.close();
+    if (this.onComplete) {
+      this.onComplete(attempt);
+    }
+  }
+
+  /**
+   * Starts a new session in this modal from the questions answered wrong.
+   * The finished attempt is reported first, as it is already recorded.
+   */
+  private retryMissed(attempt: QuizAttempt, missed: Question[]): void {
+    if (this.onComplete) {
+      this.onComplete(attempt);
+    }
+    if (this.review) {
+      this.renderer.removeChild(this.review);
+      this.review = null;
+    }
+
+    this.session = this.quizService.startQuiz(missed, undefined, this.sampling);
+    this.finished = false;
+    this.renderCurrentQuestion();
   }
 
   private getQuestionTypeLabel(type: string): string {
     switch (type) {
       case 'multiple_choice':
         return 'Multiple Choice';
+      case 'multi_select':
+        return 'Select All That Apply';
       case 'fill_blank':
         return 'Fill in the Blank';
       case 'true_false':
         return 'True or False';
+      case 'ordering':
+        return 'Put in Order';
+      case 'matching':
+        return 'Match the Pairs';
+      case 'short_answer':
+        return 'Short Answer';
+      case 'numeric':
+        return 'Numeric Answer';
+      case 'flashcard':
+        return 'Flashcard';
+      case 'image_occlusion':
+        return 'Name the Regions';
+      case 'code_output':
+        return 'Predict the Output';
       default:
         return type;
     }
@@ -215,17 +815,30 @@ export class QuizModal extends Modal {
  * Modal for selecting quiz source before starting
  */
 export class QuizSourceModal extends Modal {
-  private onSelect: (source: 'all' | 'folder' | 'note', path?: string) => void;
+  private onSelect: (
+    source: 'all' | 'folder' | 'note',
+    path: string | undefined,
+    options: QuizModalOptions
+  ) => void;
   private pendingNotes: string[];
   private folders: string[];
+  private sampling: SamplingOptions;
+  private adaptive = false;
+  private exam: ExamSettings | null = null;
 
   constructor(
     app: App,
     pendingNotes: string[],
-    onSelect: (source: 'all' | 'folder' | 'note', path?: string) => void
+    defaultSampling: SamplingOptions,
+    onSelect: (
+      source: 'all' | 'folder' | 'note',
+      path: string | undefined,
+      options: QuizModalOptions
+    ) => void
   ) {
     super(app);
     this.pendingNotes = pendingNotes;
+    this.sampling = { ...defaultSampling };
     this.onSelect = onSelect;
 
     // Extract unique folders from pending notes
@@ -248,6 +861,70 @@ export class QuizSourceModal extends Modal {
     const title = contentEl.createEl('h2', { cls: 'vr-source-title' });
     title.textContent = 'Select quiz source';
 
+    // Sampling strategy for this session
+    new Setting(contentEl)
+      .setName('Question mix')
+      .setDesc('How questions are picked and ordered.')
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('random', 'Random')
+          .addOption('interleave', 'Interleave notes')
+          .addOption('balanced', 'Balance types and difficulty')
+          .setValue(this.sampling.strategy)
+          .onChange((value) => {
+            this.sampling.strategy = value as SamplingStrategy;
+          })
+      );
+
+    new Setting(contentEl)
+      .setName('Adaptive difficulty')
+      .setDesc('Step up to harder questions after a streak of correct answers, and back down after misses.')
+      .addToggle((toggle) =>
+        toggle.setValue(this.adaptive).onChange((value) => {
+          this.adaptive = value;
+        })
+      );
+
+    // Exam mode, with its time limits shown only while it is on. The limits
+    // keep what was typed while it was off, so the exam runs with what is shown.
+    const examLimits: Setting[] = [];
+    const limits: ExamSettings = this.exam ?? { ...DEFAULT_EXAM_SETTINGS };
+    new Setting(contentEl)
+      .setName('Exam mode')
+      .setDesc('Answer against the clock with no feedback until the end. Unanswered questions count as wrong.')
+      .addToggle((toggle) =>
+        toggle.setValue(this.exam !== null).onChange((value) => {
+          this.exam = value ? limits : null;
+          examLimits.forEach((setting) => setting.settingEl.toggleClass('vr-hidden', !value));
+        })
+      );
+
+    examLimits.push(
+      new Setting(contentEl)
+        .setName('Time limit (minutes)')
+        .setDesc('Time for the whole exam. Use 0 for no limit.')
+        .addText((text) =>
+          text.setValue(String(limits.timeLimit / 60)).onChange((value) => {
+            const minutes = Number(value);
+            if (value.trim() !== '' && minutes >= 0) {
+              limits.timeLimit = Math.round(minutes * 60);
+            }
+          })
+        ),
+      new Setting(contentEl)
+        .setName('Time per question (seconds)')
+        .setDesc('Questions not answered in time are skipped. Use 0 for no limit.')
+        .addText((text) =>
+          text.setValue(String(limits.questionTimeLimit)).onChange((value) => {
+            const seconds = Number(value);
+            if (value.trim() !== '' && seconds >= 0) {
+              limits.questionTimeLimit = Math.round(seconds);
+            }
+          })
+        )
+    );
+    examLimits.forEach((setting) => setting.settingEl.addClass('vr-hidden'));
+
     // Options container
     const options = contentEl.createDiv({ cls: 'vr-source-options' });
 
@@ -258,7 +935,7 @@ export class QuizSourceModal extends Modal {
       text: 'All questions',
     });
     allBtn.addEventListener('click', () => {
-      this.onSelect('all');
+      this.onSelect('all', undefined, this.getSessionOptions());
       this.close();
     });
 
@@ -273,7 +950,7 @@ export class QuizSourceModal extends Modal {
           text: folder,
         });
         folderBtn.addEventListener('click', () => {
-          this.onSelect('folder', folder);
+          this.onSelect('folder', folder, this.getSessionOptions());
           this.close();
         });
       }
@@ -292,4 +969,12 @@ export class QuizSourceModal extends Modal {
     const { contentEl } = this;
     contentEl.empty();
   }
+
+  private getSessionOptions(): QuizModalOptions {
+    return {
+      sampling: this.sampling,
+      adaptive: this.adaptive,
+      ...(this.exam ? { exam: { ...this.exam } } : {}),
+    };
+  }
 }
@@ -0,0 +1,125 @@
+/**
+ * RestoreModal - Offers to restore a damaged data file from its backups
+ */
+
+import { App, Modal, Notice } from 'obsidian';
+import type { BackupInfo, FileService } from '../services/file-service';
+import type { MigratedFile } from '../utils/migrations';
+
+export class RestoreModal extends Modal {
+  // Whether the user picked a backup or chose to start fresh
+  private resolved = false;
+
+  constructor(
+    app: App,
+    private fileService: FileService,
+    private file: MigratedFile,
+    private quarantinePath: string,
+    private onRestored: () => void
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    void this.render();
+  }
+
+  onClose(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    if (!this.resolved) {
+      new Notice(
+        `Changes to ${this.file} won't be saved until you choose what to do. Run "restore damaged data file" from the command palette to choose.`
+      );
+    }
+  }
+
+  private async render(): Promise<void> {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('vr-restore-modal');
+
+    contentEl.createEl('h2', { text: `Couldn't read ${this.file}` });
+    contentEl.createEl('p', {
+      text: `The file is damaged, so it was moved to ${this.quarantinePath}. Nothing will be saved to it until you restore a backup or start fresh.`,
+    });
+
+    const backups = await this.fileService.listBackups(this.file);
+    if (backups.length === 0) {
+      contentEl.createEl('p', { cls: 'vr-restore-empty', text: 'There are no backups of this file.' });
+    } else {
+      contentEl.createEl('h3', { text: 'Backups' });
+      const list = contentEl.createEl('ul', { cls: 'vr-restore-list' });
+      for (const backup of backups) {
+        this.renderBackup(list, backup);
+      }
+    }
+
+    const actions = contentEl.createDiv({ cls: 'vr-quiz-actions' });
+    const freshBtn = actions.createEl('button', {
+      cls: 'vr-btn vr-btn-secondary',
+      text: 'Start fresh',
+    });
+    freshBtn.addEventListener('click', () => {
+      freshBtn.disabled = true;
+      void this.startFresh(freshBtn);
+    });
+  }
+
+  private renderBackup(list: HTMLElement, backup: BackupInfo): void {
+    const item = list.createEl('li', { cls: 'vr-restore-item' });
+    const date = new Date(backup.date).toLocaleString();
+    const info = item.createDiv({ cls: 'vr-restore-info' });
+    info.createDiv({ cls: 'vr-restore-date', text: date });
+    if (backup.label) {
+      info.createDiv({
+        cls: 'vr-restore-meta',
+        text: `Kept before upgrading from format ${backup.label.replace(/^v/, '')}`,
+      });
+    }
+
+    const restoreBtn = item.createEl('button', {
+      cls: 'vr-btn vr-btn-primary',
+      text: 'Restore',
+      attr: { 'aria-label': `Restore the backup from ${date}` },
+    });
+    restoreBtn.addEventListener('click', () => {
+      restoreBtn.disabled = true;
+      void this.restore(backup, date, restoreBtn);
+    });
+  }
+
+  private async startFresh(freshBtn: HTMLButtonElement): Promise<void> {
+    try {
+      await this.fileService.resetQuarantinedFile(this.file);
+    } catch (error) {
+      console.error('Vault Recall: Failed to reset damaged file', error);
+      new Notice(`Failed to start ${this.file} afresh.`);
+      freshBtn.disabled = false;
+      return;
+    }
+
+    this.resolved = true;
+    this.close();
+    new Notice(`Started ${this.file} afresh. The damaged copy is still in ${this.quarantinePath}.`);
+  }
+
+  private async restore(backup: BackupInfo, date: string, restoreBtn: HTMLButtonElement): Promise<void> {
+    try {
+      if (!(await this.fileService.restoreBackup(this.file, backup.path))) {
+        new Notice('That backup is damaged too. Try an older one.');
+        return;
+      }
+    } catch (error) {
+      console.error('Vault Recall: Failed to restore backup', error);
+      new Notice('Failed to restore the backup.');
+      restoreBtn.disabled = false;
+      return;
+    }
+
+    this.resolved = true;
+    this.close();
+    new Notice(`Restored ${this.file} from the backup of ${date}.`);
+    this.onRestored();
+  }
+}
@@ -14,6 +14,9 @@ export class SidebarView extends ItemView {
   private plugin: VaultRecallPlugin;
   private statsDisplay: StatsDisplay | null = null;
   private pendingListEl: HTMLElement | null = null;
+  private reviewBtn: HTMLButtonElement | null = null;
+  private resumeBtn: HTMLButtonElement | null = null;
+  private boxesEl: HTMLElement | null = null;
 
   constructor(leaf: WorkspaceLeaf, plugin: VaultRecallPlugin) {
     super(leaf);
@@ -61,6 +64,36 @@ export class SidebarView extends ItemView {
       void this.openQuiz();
     });
 
+    // Resume button (only shown while a quiz is paused)
+    this.resumeBtn = quizSection.createEl('button', {
+      cls: 'vr-btn vr-btn-outline vr-btn-full',
+      text: 'Resume quiz',
+    });
+    this.resumeBtn.addEventListener('click', () => {
+      void this.plugin.resumeQuiz(
+        () => void this.refresh(),
+        () => void this.refresh()
+      );
+    });
+    await this.refreshResume();
+
+    // Review due button
+    this.reviewBtn = quizSection.createEl('button', {
+      cls: 'vr-btn vr-btn-outline vr-btn-full',
+      text: 'Review due questions',
+    });
+    this.reviewBtn.addEventListener('click', () => {
+      void this.plugin.reviewDueQuestions(
+        () => void this.refresh(),
+        () => void this.refresh()
+      );
+    });
+    await this.refreshDueCount();
+
+    // Leitner boxes section (only shown in Leitner mode)
+    this.boxesEl = container.createDiv({ cls: 'vr-sidebar-section vr-leitner-section' });
+    await this.refreshBoxes();
+
     // Pending notes section
     const pendingSection = container.createDiv({ cls: 'vr-sidebar-section' });
     const pendingHeader = pendingSection.createDiv({ cls: 'vr-section-header' });
@@ -81,6 +114,17 @@ export class SidebarView extends ItemView {
       void this.runImport();
     });
 
+    // Calibration button
+    const calibrationBtn = actionsSection.createEl('button', {
+      cls: 'vr-btn vr-btn-outline vr-btn-full',
+      text: 'Confidence calibration',
+    });
+    calibrationBtn.addEventListener('click', () => {
+      void this.plugin.showCalibration(() => {
+        void this.refresh();
+      });
+    });
+
     // Refresh button
     const refreshBtn = actionsSection.createEl('button', {
       cls: 'vr-btn vr-btn-outline vr-btn-full',
@@ -93,9 +137,34 @@ export class SidebarView extends ItemView {
 
   async refresh(): Promise<void> {
     await this.refreshStats();
+    await this.refreshResume();
+    await this.refreshDueCount();
+    await this.refreshBoxes();
     await this.refreshPendingList();
   }
 
+  private async refreshResume(): Promise<void> {
+    if (!this.resumeBtn) return;
+
+    const saved = await this.plugin.sessionService.getPausedSession();
+    if (!saved) {
+      this.resumeBtn.addClass('vr-hidden');
+      return;
+    }
+
+    const total = this.plugin.quizService.getTotalQuestions(saved.session);
+    this.resumeBtn.removeClass('vr-hidden');
+    this.resumeBtn.textContent = `Resume quiz (${saved.session.results.length} of ${total} answered)`;
+  }
+
+  private async refreshDueCount(): Promise<void> {
+    if (!this.reviewBtn) return;
+
+    const questions = await this.plugin.quizService.getAllQuestions();
+    const due = await this.plugin.schedulerService.getDueQuestions(questions);
+    this.reviewBtn.textContent = `Review due questions (${due.length})`;
+  }
+
   private async refreshStats(): Promise<void> {
     if (!this.statsDisplay) return;
 
@@ -103,6 +172,34 @@ export class SidebarView extends ItemView {
     this.statsDisplay.update(streakInfo);
   }
 
+  private async refreshBoxes(): Promise<void> {
+    if (!this.boxesEl) return;
+
+    this.boxesEl.empty();
+
+    if (this.plugin.config.scheduling.algorithm !== 'leitner') {
+      this.boxesEl.addClass('vr-hidden');
+      return;
+    }
+    this.boxesEl.removeClass('vr-hidden');
+
+    const boxesHeader = this.boxesEl.createDiv({ cls: 'vr-section-header' });
+    boxesHeader.createEl('h3', { text: 'Leitner boxes' });
+
+    const questions = await this.plugin.quizService.getAllQuestions();
+    const counts = await this.plugin.schedulerService.getBoxCounts(questions);
+    const cadence = this.plugin.config.scheduling.leitnerCadence;
+
+    const list = this.boxesEl.createDiv({ cls: 'vr-leitner-boxes' });
+    counts.forEach((count, index) => {
+      const boxEl = list.createDiv({ cls: 'vr-leitner-box' });
+      boxEl.createDiv({ cls: 'vr-leitner-count', text: String(count) });
+      boxEl.createDiv({ cls: 'vr-leitner-label', text: `Box ${index + 1}` });
+      const days = cadence[index] ?? 1;
+      boxEl.setAttribute('title', `Reviewed every ${days} day${days !== 1 ? 's' : ''}`);
+    });
+  }
+
   private async refreshPendingList(): Promise<void> {
     if (!this.pendingListEl) return;
 
@@ -197,7 +294,7 @@ export class SidebarView extends ItemView {
     const sourceNotes = [...new Set(questions.map((q) => q.sourceNote))];
 
     // Open source selection modal
-    new QuizSourceModal(this.app, sourceNotes, (source, path) => {
+    new QuizSourceModal(this.app, sourceNotes, this.plugin.config.sampling, (source, path, sessionOptions) => {
       void (async () => {
         let quizQuestions = questions;
 
@@ -217,10 +314,24 @@ export class SidebarView extends ItemView {
           this.app,
           this.plugin.quizService,
           this.plugin.streakService,
+          this.plugin.schedulerService,
+          this.plugin.sessionService,
           quizQuestions,
-          () => {
-            // Refresh stats after quiz completes
-            void this.refreshStats();
+          {
+            ...sessionOptions,
+            keyboard: this.plugin.config.keyboard,
+            askConfidence: this.plugin.config.grading.askConfidence,
+            onComplete: () => {
+              // Refresh stats after quiz completes
+              void this.refreshStats();
+              void this.refreshResume();
+              void this.refreshDueCount();
+              void this.refreshBoxes();
+            },
+            onLeave: () => {
+              void this.refreshResume();
+              void this.refreshDueCount();
+            },
           }
         );
         quizModal.open();